@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+const apiScopes = ['backup:create', 'backup:list', 'backup:restore', 'backup:delete'] as const;
+
+const apiKeySchema = z
+  .object({
+    /** Identifies the key in logs and in the `x-key-id` header of signed requests */
+    id: z.string().min(1),
+    /** Hex SHA-256 of the key sent in `x-api-key`; the key itself is never stored */
+    keyHash: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/i, 'keyHash must be a hex SHA-256 digest')
+      .optional(),
+    /** Shared secret for HMAC-signed requests */
+    secret: z.string().min(32, 'secret must be at least 32 characters').optional(),
+    /** Omit to allow every scope */
+    scopes: z.array(z.enum(apiScopes)).optional(),
+  })
+  .refine(key => key.keyHash || key.secret, { message: 'Either keyHash or secret is required' });
+
+const apiKeysSchema = z
+  .array(apiKeySchema)
+  .refine(keys => new Set(keys.map(key => key.id)).size === keys.length, {
+    message: 'API key IDs must be unique',
+  });
+
+export type ApiScope = (typeof apiScopes)[number];
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export { apiScopes, apiKeySchema, apiKeysSchema };
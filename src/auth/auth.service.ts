@@ -0,0 +1,170 @@
+import { singleton, inject } from 'tsyringe';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+import { ApiKey, ApiScope, apiScopes } from './api-key.schema';
+import { NonceStore } from './nonce.store';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { AuthenticationError, AuthorizationError } from '../error';
+import { Logger } from '../utils/logger/logger';
+
+export interface AuthenticatedClient {
+  keyId: string;
+  method: 'none' | 'api-key' | 'hmac';
+  scopes: ApiScope[];
+}
+
+/**
+ * Authenticates API Gateway requests, either with an API key compared against
+ * its configured hash or with an HMAC signature over the request.
+ *
+ * A signed request sends `x-key-id`, `x-timestamp` (Unix seconds), `x-nonce`
+ * and `x-signature`: the hex HMAC-SHA256, keyed with the key's secret, of
+ *
+ *     METHOD \n PATH \n TIMESTAMP \n NONCE \n hex SHA-256 of the body
+ *
+ * where PATH is the raw path including any query string. Timestamps outside the
+ * allowed skew are rejected, and so is a nonce already used by any instance.
+ */
+@singleton()
+class AuthService {
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(NonceStore) private readonly nonceStore: NonceStore,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('API_AUTH_ENABLED');
+  }
+
+  async authenticate(event: APIGatewayProxyEventV2): Promise<AuthenticatedClient> {
+    if (!this.isEnabled()) {
+      return { keyId: 'anonymous', method: 'none', scopes: [...apiScopes] };
+    }
+
+    const headers = this.normalizeHeaders(event.headers);
+    const client = headers['x-signature']
+      ? await this.verifySignature(event, headers)
+      : this.verifyApiKey(headers['x-api-key']);
+
+    this.logger.info('Request authenticated', 'AuthService', {
+      keyId: client.keyId,
+      method: client.method,
+    });
+    return client;
+  }
+
+  authorize(client: AuthenticatedClient, scope: ApiScope): void {
+    if (client.scopes.includes(scope)) return;
+
+    this.logger.warn('Request rejected: missing scope', 'AuthService', {
+      keyId: client.keyId,
+      scope,
+    });
+    throw new AuthorizationError(`API key is not allowed to perform ${scope}`, {
+      details: { scope },
+    });
+  }
+
+  private verifyApiKey(apiKey: string | undefined): AuthenticatedClient {
+    if (!apiKey) {
+      throw this.reject('Missing credentials');
+    }
+
+    const hash = crypto.createHash('sha256').update(apiKey).digest();
+    // Check every key so the response time doesn't reveal which one matched
+    const match = this.getKeys().reduce<ApiKey | undefined>(
+      (found, key) =>
+        key.keyHash && this.safeEqual(hash, Buffer.from(key.keyHash, 'hex')) ? key : found,
+      undefined,
+    );
+    if (!match) {
+      throw this.reject('Invalid API key');
+    }
+    return { keyId: match.id, method: 'api-key', scopes: match.scopes ?? [...apiScopes] };
+  }
+
+  private async verifySignature(
+    event: APIGatewayProxyEventV2,
+    headers: Record<string, string>,
+  ): Promise<AuthenticatedClient> {
+    const { 'x-key-id': keyId, 'x-timestamp': timestamp, 'x-nonce': nonce } = headers;
+    if (!keyId || !timestamp || !nonce) {
+      throw this.reject('Signed requests require x-key-id, x-timestamp and x-nonce headers');
+    }
+
+    const key = this.getKeys().find(candidate => candidate.id === keyId && candidate.secret);
+    if (!key?.secret) {
+      throw this.reject('Invalid signature', { keyId });
+    }
+
+    const maxSkewMs = this.configService.get('API_AUTH_MAX_SKEW_SECONDS') * 1000;
+    const signedAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > maxSkewMs) {
+      throw this.reject('Request timestamp is outside the allowed window', { keyId });
+    }
+
+    const expected = crypto
+      .createHmac('sha256', key.secret)
+      .update(this.canonicalRequest(event, timestamp, nonce))
+      .digest();
+    if (!this.safeEqual(expected, Buffer.from(headers['x-signature'], 'hex'))) {
+      throw this.reject('Invalid signature', { keyId });
+    }
+
+    // Only recorded once the signature checks out, so forgeries can't fill the store
+    if (!(await this.nonceStore.claim(keyId, nonce, signedAt, signedAt + maxSkewMs))) {
+      throw this.reject('Request has already been used', { keyId });
+    }
+
+    return { keyId: key.id, method: 'hmac', scopes: key.scopes ?? [...apiScopes] };
+  }
+
+  private canonicalRequest(event: APIGatewayProxyEventV2, timestamp: string, nonce: string) {
+    const body = event.body
+      ? Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'utf8')
+      : Buffer.alloc(0);
+    const requestPath = event.rawQueryString
+      ? `${event.rawPath}?${event.rawQueryString}`
+      : event.rawPath;
+
+    return [
+      event.requestContext.http.method.toUpperCase(),
+      requestPath,
+      timestamp,
+      nonce,
+      crypto.createHash('sha256').update(body).digest('hex'),
+    ].join('\n');
+  }
+
+  private safeEqual(a: Buffer, b: Buffer): boolean {
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private normalizeHeaders(headers: APIGatewayProxyEventV2['headers']): Record<string, string> {
+    // API Gateway lowercases header names for HTTP APIs, but direct invocations may not
+    return Object.fromEntries(
+      Object.entries(headers ?? {})
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([name, value]) => [name.toLowerCase(), value]),
+    );
+  }
+
+  private reject(message: string, data?: Record<string, unknown>): AuthenticationError {
+    this.logger.warn(`Request rejected: ${message}`, 'AuthService', data);
+    return new AuthenticationError(message);
+  }
+
+  private getKeys(): ApiKey[] {
+    const keys = this.configService.get('API_KEYS') ?? [];
+    if (keys.length === 0) {
+      throw this.reject('No API keys are configured');
+    }
+    return keys;
+  }
+}
+
+export { AuthService };
@@ -0,0 +1,61 @@
+import { singleton, inject } from 'tsyringe';
+import crypto from 'crypto';
+import { PutObjectCommandInput } from '@aws-sdk/client-s3';
+import { StorageService } from '../storage/storage.service';
+import { isObjectAlreadyPresent } from '../storage/storage.errors';
+
+/** Outside `backups/`, so backup listing, retention and DELETE /backups never reach it */
+const NONCE_PREFIX = 'auth/nonces';
+
+/**
+ * Nonces of signed requests, recorded with a create-only write on the first
+ * storage destination, so a request is accepted once across every Lambda
+ * container. Recent nonces are also kept in memory, which spares a round trip
+ * for replays against the same container. Without storage, memory is all there
+ * is, and a replay is only caught by the container that saw the request.
+ */
+@singleton()
+class NonceStore {
+  /** Key -> expiry in ms */
+  private readonly recent = new Map<string, number>();
+
+  constructor(@inject(StorageService) private readonly storageService: StorageService) {}
+
+  /**
+   * Records the nonce, or returns false when it was recorded before. Storage
+   * errors are thrown: a nonce that can't be recorded can't be trusted.
+   */
+  async claim(keyId: string, nonce: string, signedAt: number, expiresAt: number): Promise<boolean> {
+    this.prune();
+    const hash = crypto.createHash('sha256').update(`${keyId}:${nonce}`).digest('hex');
+    if (this.recent.has(hash)) return false;
+
+    const target = this.storageService.getStateTarget('request nonces');
+    if (target) {
+      try {
+        await target.provider.save<PutObjectCommandInput>({
+          Bucket: target.bucket,
+          // By the signed day, so a replay lands on the same key and old days can expire by prefix
+          Key: `${NONCE_PREFIX}/${new Date(signedAt).toISOString().slice(0, 10)}/${hash}`,
+          Body: '',
+          IfNoneMatch: '*',
+        });
+      } catch (error) {
+        if (isObjectAlreadyPresent(error)) return false;
+        throw error;
+      }
+    }
+
+    this.recent.set(hash, expiresAt);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [hash, expiresAt] of this.recent) {
+      if (expiresAt < now) this.recent.delete(hash);
+    }
+  }
+}
+
+export { NonceStore };
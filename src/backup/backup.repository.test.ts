@@ -0,0 +1,93 @@
+import 'reflect-metadata';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BackupRepository } from './backup.repository';
+import { ConfigService } from '../config/config.service';
+import { StaticConfigProvider } from '../config/providers/static.config.provider';
+import { EncryptionService } from '../encryption/encryption.service';
+import { KmsKeyProvider } from '../encryption/providers/kms.key.provider';
+import { LocalKeyProvider } from '../encryption/providers/local.key.provider';
+import { NotFoundError } from '../error';
+import { MetricsService } from '../metrics/metrics.service';
+import { RedactionService } from '../redaction/redaction.service';
+import { StorageService } from '../storage/storage.service';
+import { Logger } from '../utils/logger/logger';
+
+describe('BackupRepository', () => {
+  const backupId = 'backups/orders/nightly/nightly.archive.gz';
+  const otherKeys = [
+    'backups/orders/nightly/manifest.json',
+    'backups/orders/nightly/oplog/0001.bson.gz',
+    'auth/nonces/2026-10-19/0f1e2d',
+    'notifications/state.json',
+  ];
+  let rootDir: string;
+  let repository: BackupRepository;
+
+  before(async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backupnimbus-repository-'));
+    const redactionService = new RedactionService();
+    const configService = new ConfigService(
+      [
+        new StaticConfigProvider({
+          LOG_LEVEL: 'ERROR',
+          STORAGE_PROVIDER: 'filesystem',
+          STORAGE_ROOT_DIR: rootDir,
+        }),
+      ],
+      redactionService,
+    );
+    await configService.load();
+    const logger = new Logger(configService, redactionService);
+    const metricsService = new MetricsService(configService, logger);
+    repository = new BackupRepository(
+      new StorageService(configService, metricsService, logger),
+      new EncryptionService(
+        new LocalKeyProvider(configService, logger),
+        new KmsKeyProvider(configService, logger),
+        configService,
+        logger,
+      ),
+      metricsService,
+      logger,
+    );
+  });
+
+  after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    for (const key of [backupId, ...otherKeys]) {
+      fs.mkdirSync(path.dirname(path.join(rootDir, key)), { recursive: true });
+      fs.writeFileSync(path.join(rootDir, key), 'content');
+    }
+  });
+
+  describe('deleteBackup', () => {
+    it('deletes the archive with its manifest and oplog slices', async () => {
+      await repository.deleteBackup(backupId);
+
+      assert.equal(fs.existsSync(path.join(rootDir, backupId)), false);
+      assert.equal(fs.existsSync(path.join(rootDir, otherKeys[0])), false);
+      assert.equal(fs.existsSync(path.join(rootDir, otherKeys[1])), false);
+    });
+
+    it('rejects unknown backups', async () => {
+      await assert.rejects(
+        repository.deleteBackup('backups/orders/missing/missing.archive.gz'),
+        NotFoundError,
+      );
+    });
+
+    for (const key of otherKeys) {
+      it(`leaves ${key} alone`, async () => {
+        await assert.rejects(repository.deleteBackup(key), NotFoundError);
+
+        assert.equal(fs.existsSync(path.join(rootDir, key)), true);
+        assert.equal(fs.existsSync(path.join(rootDir, backupId)), true);
+      });
+    }
+  });
+});
@@ -0,0 +1,637 @@
+import { singleton, inject } from 'tsyringe';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { Readable, Transform, Writable, pipeline as streamPipeline } from 'stream';
+import { pipeline } from 'stream/promises';
+import { text } from 'stream/consumers';
+import {
+  GetObjectCommandInput,
+  GetObjectCommandOutput,
+  ListObjectsV2CommandInput,
+  ListObjectsV2CommandOutput,
+  PutObjectCommandInput,
+  DeleteObjectCommandInput,
+} from '@aws-sdk/client-s3';
+import { BackupInfo, BackupManifest, VerificationCheck } from './providers/backup.provider';
+import { CommandResult } from '../command/providers/command.provider';
+import { EncryptionService, ENCRYPTION_METADATA } from '../encryption/encryption.service';
+import { S3StreamUploadInput } from '../storage/providers/s3.storage.provider';
+import { DestinationResult } from '../storage/storage.destination';
+import { StorageService, StorageTarget } from '../storage/storage.service';
+import { BackupError, NotFoundError, StorageError } from '../error';
+import { MetricPhase, MetricsService } from '../metrics/metrics.service';
+import { teeStream } from '../utils/stream-tee';
+import { Logger } from '../utils/logger/logger';
+
+const MANIFEST_FILE = 'manifest.json';
+/** Directory next to a snapshot holding its oplog slices */
+const OPLOG_DIRECTORY = 'oplog';
+
+export interface ArchiveUploadOptions {
+  name: string;
+  /** Extension of the raw dump, before compression and encryption suffixes */
+  extension: string;
+  source: Readable;
+  /** Exit status of the process producing `source` */
+  completion: Promise<CommandResult>;
+  tool: string;
+  compress?: boolean;
+  /** Pass-through stages that observe the raw dump before compression */
+  inspectors?: Transform[];
+  /** Stores the backup under `backups/<job>/` */
+  job?: string;
+  /** Destination names to write to; every configured destination when omitted */
+  destinations?: string[];
+  /** Key to store the archive under, before extensions, instead of one derived from job and name */
+  key?: string;
+}
+
+export interface StoredArchive {
+  key: string;
+  job?: string;
+  size: number;
+  sha256: string;
+  /** Location in the first destination that stored the archive */
+  location?: string;
+  destinations: DestinationResult[];
+  compression: BackupManifest['compression'];
+  encryption: BackupManifest['encryption'];
+}
+
+export interface ArchiveScan {
+  size: number;
+  sha256: string;
+  error?: unknown;
+}
+
+interface LocatedBackup {
+  target: StorageTarget;
+  size?: number;
+  lastModified?: Date;
+}
+
+/**
+ * Storage layout shared by every backup engine: one prefix per backup holding
+ * the archive and its manifest, replicated to every configured destination.
+ * Archives are gzip-compressed and optionally encrypted on the way in, and
+ * decoded again on the way out.
+ */
+@singleton()
+class BackupRepository {
+  private readonly backupPrefix = 'backups/';
+
+  constructor(
+    @inject(StorageService) private readonly storageService: StorageService,
+    @inject(EncryptionService) private readonly encryptionService: EncryptionService,
+    @inject(MetricsService) private readonly metricsService: MetricsService,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  async uploadArchive(options: ArchiveUploadOptions): Promise<StoredArchive> {
+    const { name, source, completion, tool, compress, inspectors = [], job } = options;
+    const targets = this.storageService.getTargets(options.destinations);
+    const encryption = this.encryptionService.isEnabled()
+      ? await this.encryptionService.createEncryptStream()
+      : undefined;
+    const extension =
+      options.extension + (compress !== false ? '.gz' : '') + (encryption ? '.enc' : '');
+    const key = `${options.key ?? `${this.backupPrefix}${job ? `${job}/` : ''}${name}/${name}`}${extension}`;
+    this.logger.bindFields({ backupId: key });
+
+    this.logger.info(`Streaming ${tool} output to storage`, 'BackupRepository', {
+      destinations: targets.map(target => target.name),
+      key,
+      compressed: compress !== false,
+      encrypted: Boolean(encryption),
+    });
+
+    // The stages run at once, so each phase is timed from here until that stage finished
+    const startedAt = Date.now();
+    const phases = new Map<MetricPhase, number>();
+    completion.then(
+      () => phases.set('dump', Date.now() - startedAt),
+      () => undefined,
+    );
+
+    let size = 0;
+    const hash = crypto.createHash('sha256');
+    const stages: Transform[] = [...inspectors];
+    if (compress !== false) {
+      const gzip = zlib.createGzip();
+      gzip.once('end', () => phases.set('compress', Date.now() - startedAt));
+      stages.push(gzip);
+    }
+    if (encryption) stages.push(encryption.stream);
+    stages.push(
+      this.createDumpGate(tool, completion, chunk => {
+        size += chunk.length;
+        hash.update(chunk);
+      }),
+    );
+
+    // Failures surface through the upload consuming the body
+    const body = stages.reduce<Readable>(
+      (upstream, stage) => streamPipeline(upstream, stage, () => undefined),
+      source,
+    );
+
+    const uploadParams: PutObjectCommandInput = {
+      Bucket: undefined,
+      Key: key,
+      ContentType:
+        compress !== false && !encryption ? 'application/gzip' : 'application/octet-stream',
+      Metadata: encryption?.metadata,
+    };
+    const destinations = await this.replicate(body, targets, uploadParams);
+    phases.set('upload', Date.now() - startedAt);
+    phases.forEach((duration, phase) => this.metricsService.recordPhase(phase, duration));
+
+    return {
+      key,
+      job,
+      size,
+      sha256: hash.digest('hex'),
+      location: destinations.find(destination => destination.success)?.location,
+      destinations,
+      compression: compress !== false ? { enabled: true, algorithm: 'gzip' } : { enabled: false },
+      encryption: encryption
+        ? {
+            enabled: true,
+            algorithm: encryption.metadata[ENCRYPTION_METADATA.algorithm],
+            keyProvider: encryption.metadata[ENCRYPTION_METADATA.keyProvider],
+            keyId: encryption.metadata[ENCRYPTION_METADATA.keyId],
+          }
+        : { enabled: false },
+    };
+  }
+
+  /** Explains why the upload results fail the storage failure policy, if they do */
+  checkFailurePolicy(destinations: DestinationResult[]): string | undefined {
+    return this.storageService.checkFailurePolicy(destinations);
+  }
+
+  /**
+   * Uploads one stream to every target at once. A destination that fails is
+   * cut loose and reported without holding up the others.
+   */
+  private async replicate(
+    body: Readable,
+    targets: StorageTarget[],
+    params: PutObjectCommandInput,
+  ): Promise<DestinationResult[]> {
+    const tee = teeStream(body, targets.length);
+
+    return Promise.all(
+      targets.map(async (target, index): Promise<DestinationResult> => {
+        const branch = tee.branches[index];
+        try {
+          await target.provider.saveStream<S3StreamUploadInput>({
+            params: { ...params, Bucket: target.bucket, Body: branch },
+          });
+          return {
+            destination: target.name,
+            success: true,
+            location: target.provider.locationOf(target.bucket, params.Key ?? ''),
+          };
+        } catch (error) {
+          // Once every destination has failed this also stops the dump process
+          tee.release(branch);
+          this.logger.error('Upload to destination failed', 'BackupRepository', error, {
+            destination: target.name,
+          });
+          return {
+            destination: target.name,
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }),
+    );
+  }
+
+  /**
+   * Passes the dump through while counting bytes, and holds back the end of the
+   * stream until the dump process has exited so a failed dump aborts the upload
+   * instead of completing it with a truncated archive.
+   */
+  private createDumpGate(
+    tool: string,
+    completion: Promise<CommandResult>,
+    onChunk: (chunk: Buffer) => void,
+  ): Transform {
+    const logger = this.logger;
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        onChunk(chunk);
+        callback(null, chunk);
+      },
+      flush(callback) {
+        completion.then(result => {
+          if (result.success) {
+            callback();
+            return;
+          }
+          logger.error(`${tool} failed`, 'BackupRepository', undefined, {
+            exitCode: result.exitCode,
+            stderr: result.stderr,
+          });
+          callback(
+            new BackupError(`${tool} failed: ${result.stderr}`, {
+              details: { tool, exitCode: result.exitCode, stderr: result.stderr },
+            }),
+          );
+        }, callback);
+      },
+    });
+  }
+
+  /** Writes the manifest next to every stored copy of the archive */
+  async saveManifest(manifest: BackupManifest, destinations: DestinationResult[]): Promise<void> {
+    const manifestKey = this.manifestKeyFor(manifest.backupId);
+    if (!manifestKey) return;
+
+    const stored = new Set(destinations.filter(result => result.success).map(r => r.destination));
+    for (const target of this.storageService.getTargets()) {
+      if (!stored.has(target.name)) continue;
+      this.logger.info('Writing backup manifest', 'BackupRepository', {
+        destination: target.name,
+        key: manifestKey,
+      });
+      await target.provider.save<PutObjectCommandInput>({
+        Bucket: target.bucket,
+        Key: manifestKey,
+        Body: JSON.stringify(manifest, null, 2),
+        ContentType: 'application/json',
+      });
+    }
+  }
+
+  private async loadManifest(
+    target: StorageTarget,
+    backupId: string,
+  ): Promise<BackupManifest | undefined> {
+    const manifestKey = this.manifestKeyFor(backupId);
+    if (!manifestKey) return undefined;
+
+    try {
+      const response = await target.provider.get<GetObjectCommandInput, GetObjectCommandOutput>({
+        Bucket: target.bucket,
+        Key: manifestKey,
+      });
+      const body = response.Body ? await text(response.Body as Readable) : undefined;
+      return body ? (JSON.parse(body) as BackupManifest) : undefined;
+    } catch (error) {
+      this.logger.warn('Backup manifest could not be loaded', 'BackupRepository', {
+        destination: target.name,
+        key: manifestKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /** Key of an oplog slice of a snapshot, before extensions */
+  oplogSliceKey(backupId: string, sequence: number): string {
+    const file = String(sequence).padStart(6, '0');
+    return `${path.posix.dirname(backupId)}/${OPLOG_DIRECTORY}/${file}`;
+  }
+
+  private manifestKeyFor(backupId: string): string | undefined {
+    const directory = path.posix.dirname(backupId);
+    // Backups stored directly under the prefix predate manifests
+    if (`${directory}/` === this.backupPrefix) return undefined;
+    return `${directory}/${MANIFEST_FILE}`;
+  }
+
+  /**
+   * Lists backups across every destination; a backup stored in several places
+   * appears once, with the location of the first destination that has it.
+   */
+  async listBackups(): Promise<BackupInfo[]> {
+    const backups = new Map<string, BackupInfo>();
+    const failures: string[] = [];
+    const targets = this.storageService.getTargets();
+
+    for (const target of targets) {
+      try {
+        for (const backup of await this.listTarget(target)) {
+          if (!backups.has(backup.backupId)) backups.set(backup.backupId, backup);
+        }
+      } catch (error) {
+        // One unreachable destination shouldn't hide the copies in the others
+        failures.push(target.name);
+        this.logger.warn('Failed to list backups in destination', 'BackupRepository', {
+          destination: target.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (failures.length === targets.length) {
+      throw new StorageError('Failed to list backups in every destination', {
+        details: { destinations: failures },
+      });
+    }
+
+    // Newest first, which is what on-call needs when picking a restore point
+    const sorted = [...backups.values()].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    this.logger.info('Backups listed', 'BackupRepository', { count: sorted.length });
+    return sorted;
+  }
+
+  private async listTarget(target: StorageTarget): Promise<BackupInfo[]> {
+    this.logger.info('Listing backups', 'BackupRepository', {
+      destination: target.name,
+      prefix: this.backupPrefix,
+    });
+
+    const backups: BackupInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await target.provider.list<
+        ListObjectsV2CommandInput,
+        ListObjectsV2CommandOutput
+      >({
+        Bucket: target.bucket,
+        Prefix: this.backupPrefix,
+        ContinuationToken: continuationToken,
+      });
+
+      for (const object of page.Contents ?? []) {
+        if (!object.Key || !this.isBackupKey(object.Key)) continue;
+
+        backups.push(
+          this.toBackupInfo(
+            { target, size: object.Size, lastModified: object.LastModified },
+            object.Key,
+          ),
+        );
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return backups;
+  }
+
+  async getBackup(id: string): Promise<BackupInfo> {
+    this.logger.info('Fetching backup details', 'BackupRepository', { backupId: id });
+    const located = await this.locate(id);
+
+    return {
+      ...this.toBackupInfo(located, id),
+      manifest: await this.loadManifest(located.target, id),
+    };
+  }
+
+  /** Whether the key is a backup archive under `backups/`, not a manifest or an oplog slice */
+  private isBackupKey(key: string): boolean {
+    return (
+      key.startsWith(this.backupPrefix) &&
+      // Skip the prefix placeholder object some tools create for "folders"
+      !key.endsWith('/') &&
+      path.posix.basename(key) !== MANIFEST_FILE &&
+      // Oplog slices belong to the snapshot next to them
+      !key.includes(`/${OPLOG_DIRECTORY}/`)
+    );
+  }
+
+  /** Finds the first destination, in configured order, that holds the backup */
+  private async locate(id: string): Promise<LocatedBackup> {
+    if (!this.isBackupKey(id)) {
+      throw new NotFoundError(`Backup not found: ${id}`, { details: { backupId: id } });
+    }
+
+    for (const target of this.storageService.getTargets()) {
+      try {
+        const page = await target.provider.list<
+          ListObjectsV2CommandInput,
+          ListObjectsV2CommandOutput
+        >({ Bucket: target.bucket, Prefix: id, MaxKeys: 1 });
+        const object = page.Contents?.find(candidate => candidate.Key === id);
+        if (object) return { target, size: object.Size, lastModified: object.LastModified };
+      } catch (error) {
+        this.logger.warn('Failed to look up backup in destination', 'BackupRepository', {
+          destination: target.name,
+          backupId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    throw new NotFoundError(`Backup not found: ${id}`, { details: { backupId: id } });
+  }
+
+  private toBackupInfo(located: LocatedBackup, key: string): BackupInfo {
+    return {
+      backupId: key,
+      name: path.posix.basename(key),
+      job: this.jobOf(key),
+      size: located.size ?? 0,
+      timestamp: located.lastModified?.toISOString() ?? '',
+      location: located.target.provider.locationOf(located.target.bucket, key),
+    };
+  }
+
+  /** Job backups are keyed `backups/<job>/<name>/<file>`, one level deeper than the rest */
+  private jobOf(key: string): string | undefined {
+    const segments = key.slice(this.backupPrefix.length).split('/');
+    return segments.length === 3 ? segments[0] : undefined;
+  }
+
+  /**
+   * Deletes the backup from every destination, so retention prunes all copies.
+   * Only keys that locate() accepts as a backup are deleted; anything else in
+   * the bucket, like request nonces or notification state, is a 404.
+   */
+  async deleteBackup(id: string): Promise<void> {
+    await this.locate(id);
+    const manifestKey = this.manifestKeyFor(id);
+    const failures: string[] = [];
+
+    for (const target of this.storageService.getTargets()) {
+      this.logger.info('Deleting backup', 'BackupRepository', {
+        destination: target.name,
+        backupId: id,
+      });
+      try {
+        await target.provider.delete<DeleteObjectCommandInput>({ Bucket: target.bucket, Key: id });
+        if (manifestKey) {
+          await target.provider.delete<DeleteObjectCommandInput>({
+            Bucket: target.bucket,
+            Key: manifestKey,
+          });
+          await this.deleteOplogSlices(target, id);
+        }
+      } catch (error) {
+        failures.push(target.name);
+        this.logger.error('Failed to delete backup from destination', 'BackupRepository', error, {
+          destination: target.name,
+          backupId: id,
+        });
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new StorageError(`Failed to delete backup from: ${failures.join(', ')}`, {
+        details: { backupId: id, destinations: failures },
+      });
+    }
+  }
+
+  /** Oplog slices are useless without their snapshot, so they go with it */
+  private async deleteOplogSlices(target: StorageTarget, id: string): Promise<void> {
+    const prefix = `${path.posix.dirname(id)}/${OPLOG_DIRECTORY}/`;
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await target.provider.list<
+        ListObjectsV2CommandInput,
+        ListObjectsV2CommandOutput
+      >({ Bucket: target.bucket, Prefix: prefix, ContinuationToken: continuationToken });
+
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        await target.provider.delete<DeleteObjectCommandInput>({
+          Bucket: target.bucket,
+          Key: object.Key,
+        });
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  /** The extension of the raw dump, with compression and encryption suffixes removed */
+  archiveFormat(id: string): string {
+    return id.replace(/\.enc$/, '').replace(/\.gz$/, '');
+  }
+
+  /**
+   * Streams an archive back out of storage, decrypted and decompressed. Errors
+   * destroy the returned stream, which ends the input of whatever consumes it.
+   */
+  async openArchive(id: string, onRawChunk?: (chunk: Buffer) => void): Promise<Readable> {
+    const { target } = await this.locate(id);
+    this.logger.info('Streaming backup from storage', 'BackupRepository', {
+      destination: target.name,
+      key: id,
+    });
+
+    const response = await target.provider.get<GetObjectCommandInput, GetObjectCommandOutput>({
+      Bucket: target.bucket,
+      Key: id,
+    });
+
+    if (!response.Body) {
+      throw new BackupError(`Backup object has no content: ${id}`);
+    }
+
+    const stages: Transform[] = [];
+    if (onRawChunk) {
+      stages.push(
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            onRawChunk(chunk);
+            callback(null, chunk);
+          },
+        }),
+      );
+    }
+    if (id.endsWith('.enc')) {
+      stages.push(await this.encryptionService.createDecryptStream(response.Metadata ?? {}));
+    }
+    if (id.replace(/\.enc$/, '').endsWith('.gz')) stages.push(zlib.createGunzip());
+
+    return stages.reduce<Readable>(
+      (upstream, stage) => streamPipeline(upstream, stage, () => undefined),
+      response.Body as Readable,
+    );
+  }
+
+  /** Downloads the stored object as-is, without decoding it */
+  async downloadArchive(id: string, targetPath: string): Promise<void> {
+    const { target } = await this.locate(id);
+    this.logger.info('Downloading backup from storage', 'BackupRepository', {
+      destination: target.name,
+      key: id,
+      targetPath,
+    });
+
+    const response = await target.provider.get<GetObjectCommandInput, GetObjectCommandOutput>({
+      Bucket: target.bucket,
+      Key: id,
+    });
+
+    if (!response.Body) {
+      throw new BackupError(`Backup object has no content: ${id}`);
+    }
+
+    await pipeline(response.Body as Readable, fs.createWriteStream(targetPath));
+  }
+
+  /**
+   * Reads a whole archive, hashing the stored bytes and passing the decoded
+   * stream through `inspectors`. Read errors are reported, not thrown.
+   */
+  async scanArchive(id: string, inspectors: Transform[] = []): Promise<ArchiveScan> {
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    const discard = new Writable({
+      write(_chunk, _encoding, callback) {
+        callback();
+      },
+    });
+
+    let error: unknown;
+    try {
+      const decoded = await this.openArchive(id, chunk => {
+        size += chunk.length;
+        hash.update(chunk);
+      });
+      const inspected = inspectors.reduce<Readable>(
+        (upstream, stage) => streamPipeline(upstream, stage, () => undefined),
+        decoded,
+      );
+      await pipeline(inspected, discard);
+    } catch (scanError) {
+      error = scanError;
+    }
+
+    return { size, sha256: hash.digest('hex'), error };
+  }
+
+  /** Checks shared by every engine: the archive decodes and matches its manifest */
+  integrityChecks(manifest: BackupManifest | undefined, scan: ArchiveScan): VerificationCheck[] {
+    const compare = (
+      name: string,
+      expected: string | number | undefined,
+      actual: string | number,
+    ): VerificationCheck => {
+      if (expected === undefined) {
+        return { name, status: 'skipped', message: 'No manifest recorded for this backup' };
+      }
+      return expected === actual
+        ? { name, status: 'passed' }
+        : { name, status: 'failed', message: `Expected ${expected}, got ${actual}` };
+    };
+
+    return [
+      scan.error
+        ? {
+            name: 'readable',
+            status: 'failed',
+            message: scan.error instanceof Error ? scan.error.message : String(scan.error),
+          }
+        : { name: 'readable', status: 'passed' },
+      compare('checksum', manifest?.archive.sha256, scan.sha256),
+      compare('size', manifest?.archive.size, scan.size),
+    ];
+  }
+}
+
+export { BackupRepository };
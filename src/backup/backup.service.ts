@@ -1,21 +1,161 @@
 import { singleton, inject } from 'tsyringe';
+import { z } from 'zod';
 import { MongoBackupProvider } from './providers/mongo.backup.provider';
-import { BackupOptions, BackupResult, BackupInfo, RestoreOptions, RestoreResult } from './providers/backup.provider';
+import { PostgresBackupProvider } from './providers/postgres.backup.provider';
+import {
+  BackupProvider,
+  BackupOptions,
+  BackupResult,
+  BackupInfo,
+  RestoreOptions,
+  RestoreResult,
+  VerificationReport,
+  BackupManifest,
+  OplogCaptureResult,
+} from './providers/backup.provider';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { NotificationService } from '../notification/notification.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { BackupError, ConfigurationError } from '../error';
+import { Logger } from '../utils/logger/logger';
 
 @singleton()
 class BackupService {
-  constructor(@inject(MongoBackupProvider) private backupProvider: MongoBackupProvider) {}
+  constructor(
+    @inject(MongoBackupProvider) private readonly mongoBackupProvider: MongoBackupProvider,
+    @inject(PostgresBackupProvider) private readonly postgresBackupProvider: PostgresBackupProvider,
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(NotificationService) private readonly notificationService: NotificationService,
+    @inject(MetricsService) private readonly metricsService: MetricsService,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
 
-  async createBackup(options?: BackupOptions): Promise<BackupResult> {
-    return this.backupProvider.createBackup(options || {});
+  async createBackup(options?: BackupOptions, engine?: string): Promise<BackupResult> {
+    const provider = this.getProvider(engine);
+    return this.metricsService.measure(
+      'backup',
+      { job: options?.job, engine: provider.engine },
+      async () => {
+        const result = await provider.createBackup(options || {});
+        if (result.size !== undefined)
+          this.metricsService.record('ArchiveSize', result.size, 'Bytes');
+        if (result.manifest) {
+          this.metricsService.record('Documents', this.countDocuments(result.manifest), 'Count');
+        }
+        return result;
+      },
+      result => result.success,
+    );
+  }
+
+  /** Captures the next oplog slice of the latest oplog snapshot of the job */
+  async captureOplog(options?: BackupOptions, engine?: string): Promise<OplogCaptureResult> {
+    const provider = this.getProvider(engine);
+    if (provider !== this.mongoBackupProvider) {
+      throw new ConfigurationError(`Oplog capture is not supported for engine: ${provider.engine}`);
+    }
+    return this.metricsService.measure(
+      'oplog',
+      { job: options?.job, engine: provider.engine },
+      async () => {
+        const result = await this.mongoBackupProvider.captureOplog(options);
+        if (result.slice) {
+          this.metricsService.record('ArchiveSize', result.slice.size, 'Bytes');
+          this.metricsService.record('Documents', result.slice.entries, 'Count');
+          this.metricsService.record('OplogGaps', result.slice.gap ? 1 : 0, 'Count');
+        }
+        return result;
+      },
+      result => result.success,
+    );
   }
 
   async listBackups(): Promise<BackupInfo[]> {
-    return this.backupProvider.listBackups();
+    return this.getProvider().listBackups();
+  }
+
+  async getBackup(id: string): Promise<BackupInfo> {
+    return this.getProvider().getBackup(id);
   }
 
   async restoreBackup(id: string, options?: RestoreOptions): Promise<RestoreResult> {
-    return this.backupProvider.restoreBackup(id, options);
+    const { provider, manifest } = await this.getProviderFor(id);
+    return this.metricsService.measure(
+      'restore',
+      { job: manifest?.job, engine: provider.engine },
+      async () => {
+        const result = await provider.restoreBackup(id, options);
+        this.metricsService.record('Documents', result.documentsRestored ?? 0, 'Count');
+        this.metricsService.record('DocumentsFailed', result.documentsFailed ?? 0, 'Count');
+        return result;
+      },
+      result => result.success,
+    );
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    return this.getProvider().deleteBackup(id);
+  }
+
+  async verify(id: string): Promise<VerificationReport> {
+    const { provider, manifest } = await this.getProviderFor(id);
+    const report = await this.metricsService.measure(
+      'verify',
+      { job: manifest?.job, engine: provider.engine },
+      async () => {
+        const result = await provider.verifyBackup(id);
+        this.metricsService.record('ArchiveSize', result.size, 'Bytes');
+        this.metricsService.record(
+          'Documents',
+          result.collections.reduce((sum, collection) => sum + (collection.documents ?? 0), 0),
+          'Count',
+        );
+        return result;
+      },
+      result => result.valid,
+    );
+
+    if (this.notificationService.isEnabled()) {
+      try {
+        await this.notificationService.sendVerificationNotification(report);
+      } catch (notificationError) {
+        this.logger.error(
+          'Failed to send verification notification',
+          'BackupService',
+          notificationError,
+        );
+      }
+    }
+
+    if (report.valid) return report;
+    throw new BackupError(`Backup verification failed: ${id}`, { details: { report } });
+  }
+
+  private getProvider(engine: string = this.configService.get('BACKUP_ENGINE')): BackupProvider {
+    switch (engine) {
+      case this.mongoBackupProvider.engine:
+        return this.mongoBackupProvider;
+      case this.postgresBackupProvider.engine:
+        return this.postgresBackupProvider;
+      default:
+        throw new ConfigurationError(`Unknown backup engine: ${engine}`);
+    }
+  }
+
+  /** Backups are restored by the engine that took them, whatever is configured now */
+  private async getProviderFor(
+    id: string,
+  ): Promise<{ provider: BackupProvider; manifest?: BackupManifest }> {
+    const { manifest } = await this.getProvider().getBackup(id);
+    return { provider: this.getProvider(manifest?.engine), manifest };
+  }
+
+  private countDocuments(manifest: BackupManifest): number {
+    return manifest.databases
+      .flatMap(database => database.collections)
+      .reduce((sum, collection) => sum + collection.documents, 0);
   }
 }
 
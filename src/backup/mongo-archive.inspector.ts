@@ -0,0 +1,189 @@
+import { Transform, TransformCallback } from 'stream';
+import { deserialize, Document } from 'bson';
+import { OplogRange, trackOplogEntry } from './oplog.inspector';
+
+const ARCHIVE_MAGIC = 0x8199e26d;
+const TERMINATOR = -1;
+
+export interface ArchiveCollectionStats {
+  database: string;
+  collection: string;
+  documents: number;
+  bytes: number;
+}
+
+export interface ArchiveSummary {
+  toolVersion?: string;
+  serverVersion?: string;
+  collections: ArchiveCollectionStats[];
+  complete: boolean;
+  /** Entries recorded by `mongodump --oplog` while the dump ran */
+  oplog?: OplogRange;
+}
+
+type State =
+  | 'magic'
+  | 'prelude-header'
+  | 'prelude-metadata'
+  | 'namespace-header'
+  | 'namespace-body';
+
+/**
+ * Pass-through stream that walks a mongodump `--archive` as it flows by and
+ * tallies documents and BSON bytes per collection. Only the small header
+ * documents are decoded; collection data is counted and skipped.
+ *
+ * Layout: magic, a prelude (archive header plus one metadata document per
+ * collection, then a terminator), then interleaved blocks of a namespace
+ * header followed by documents and a terminator. A namespace header with
+ * `EOF: true` closes its collection. With `--oplog`, the oplog entries taken
+ * during the dump come in a namespace of their own, with no database; those
+ * are decoded for their timestamps rather than counted as a collection.
+ */
+class MongoArchiveInspector extends Transform {
+  private state: State = 'magic';
+  private pending = Buffer.alloc(0);
+  private skipRemaining = 0;
+  private current?: ArchiveCollectionStats;
+  private inOplog = false;
+  private oplog?: OplogRange;
+  private readonly stats = new Map<string, ArchiveCollectionStats>();
+  private readonly closedNamespaces = new Set<string>();
+  private toolVersion?: string;
+  private serverVersion?: string;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.inspect(chunk);
+      callback(null, chunk);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  getSummary(): ArchiveSummary {
+    return {
+      toolVersion: this.toolVersion,
+      serverVersion: this.serverVersion,
+      collections: [...this.stats.values()],
+      complete: this.state === 'namespace-header' && this.pending.length === 0 && this.allClosed(),
+      oplog: this.oplog && { ...this.oplog },
+    };
+  }
+
+  private allClosed(): boolean {
+    return [...this.stats.keys()].every(namespace => this.closedNamespaces.has(namespace));
+  }
+
+  private inspect(chunk: Buffer): void {
+    let offset = 0;
+
+    while (offset < chunk.length) {
+      // Fast path: skip document bodies without buffering them
+      if (this.skipRemaining > 0) {
+        const skipped = Math.min(this.skipRemaining, chunk.length - offset);
+        this.skipRemaining -= skipped;
+        offset += skipped;
+        continue;
+      }
+
+      const needed = this.pending.length < 4 ? 4 : this.pending.readInt32LE(0);
+      const take = Math.min(needed - this.pending.length, chunk.length - offset);
+      this.pending = Buffer.concat([this.pending, chunk.subarray(offset, offset + take)]);
+      offset += take;
+
+      if (this.pending.length < 4) continue;
+      const size = this.pending.readInt32LE(0);
+
+      if (this.state === 'magic') {
+        if (size >>> 0 !== ARCHIVE_MAGIC) throw new Error('Not a mongodump archive');
+        this.state = 'prelude-header';
+        this.pending = Buffer.alloc(0);
+        continue;
+      }
+
+      if (size === TERMINATOR) {
+        this.onTerminator();
+        this.pending = Buffer.alloc(0);
+        continue;
+      }
+
+      if (size < 5) throw new Error(`Invalid BSON document size in archive: ${size}`);
+
+      if (this.state === 'namespace-body' && this.inOplog) {
+        if (this.pending.length < size) continue;
+        trackOplogEntry((this.oplog ??= { entries: 0 }), deserialize(this.pending));
+        this.pending = Buffer.alloc(0);
+        continue;
+      }
+
+      if (this.state === 'namespace-body') {
+        if (!this.current) throw new Error('Archive document outside of a namespace block');
+        // Count the document from its length prefix and skip the rest of it
+        this.current.documents += 1;
+        this.current.bytes += size;
+        this.skipRemaining = size - this.pending.length;
+        this.pending = Buffer.alloc(0);
+        continue;
+      }
+
+      if (this.pending.length < size) continue;
+      this.onHeader(deserialize(this.pending));
+      this.pending = Buffer.alloc(0);
+    }
+  }
+
+  private onTerminator(): void {
+    if (this.state === 'prelude-metadata' || this.state === 'prelude-header') {
+      this.state = 'namespace-header';
+    } else if (this.state === 'namespace-body') {
+      this.current = undefined;
+      this.inOplog = false;
+      this.state = 'namespace-header';
+    }
+  }
+
+  private onHeader(header: Document): void {
+    switch (this.state) {
+      case 'prelude-header':
+        this.toolVersion = header.tool_version;
+        this.serverVersion = header.server_version;
+        this.state = 'prelude-metadata';
+        break;
+      case 'prelude-metadata':
+        if (!this.isOplog(header)) this.collectionStats(header.db, header.collection);
+        break;
+      case 'namespace-header': {
+        if (this.isOplog(header)) {
+          this.oplog ??= { entries: 0 };
+          this.inOplog = true;
+          this.state = 'namespace-body';
+          break;
+        }
+        const stats = this.collectionStats(header.db, header.collection);
+        if (header.EOF) {
+          this.closedNamespaces.add(`${stats.database}.${stats.collection}`);
+        }
+        this.current = stats;
+        this.state = 'namespace-body';
+        break;
+      }
+    }
+  }
+
+  private isOplog(header: Document): boolean {
+    return !header.db && header.collection === 'oplog';
+  }
+
+  private collectionStats(database: string, collection: string): ArchiveCollectionStats {
+    const namespace = `${database}.${collection}`;
+    let stats = this.stats.get(namespace);
+    if (!stats) {
+      stats = { database, collection, documents: 0, bytes: 0 };
+      this.stats.set(namespace, stats);
+    }
+    return stats;
+  }
+}
+
+export { MongoArchiveInspector };
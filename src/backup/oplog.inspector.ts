@@ -0,0 +1,80 @@
+import { Transform, TransformCallback } from 'stream';
+import { deserialize, Document, Timestamp } from 'bson';
+import { OplogTimestamp } from './providers/backup.provider';
+
+export interface OplogRange {
+  first?: OplogTimestamp;
+  last?: OplogTimestamp;
+  entries: number;
+}
+
+export const compareOplogTimestamps = (a: OplogTimestamp, b: OplogTimestamp): number =>
+  a.t - b.t || a.i - b.i;
+
+/** As `--oplogLimit` takes it */
+export const formatOplogTimestamp = (ts: OplogTimestamp): string => `${ts.t}:${ts.i}`;
+
+export const oplogTimestampToIso = (ts: OplogTimestamp): string =>
+  new Date(ts.t * 1000).toISOString();
+
+/** Adds the `ts` of a decoded oplog entry to `range` */
+export const trackOplogEntry = (range: OplogRange, entry: Document): OplogTimestamp => {
+  if (!(entry.ts instanceof Timestamp)) {
+    throw new Error('Oplog entry has no timestamp');
+  }
+  const ts = { t: entry.ts.t, i: entry.ts.i };
+  range.first ??= ts;
+  range.last = ts;
+  range.entries += 1;
+  return ts;
+};
+
+/**
+ * Pass-through stream over an oplog dumped with `mongodump --out=-`, which is
+ * BSON documents back to back. It records the timestamps of the entries it
+ * sees and, given `after`, drops those at or before it, such as the entry a
+ * slice shares with the one before it.
+ */
+class OplogInspector extends Transform {
+  private pending: Buffer = Buffer.alloc(0);
+  private readonly range: OplogRange = { entries: 0 };
+
+  constructor(private readonly after?: OplogTimestamp) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+      const kept: Buffer[] = [];
+      let offset = 0;
+
+      while (this.pending.length - offset >= 4) {
+        const size = this.pending.readInt32LE(offset);
+        if (size < 5) throw new Error(`Invalid BSON document size in oplog: ${size}`);
+        if (this.pending.length - offset < size) break;
+
+        const document = this.pending.subarray(offset, offset + size);
+        offset += size;
+        const ts = trackOplogEntry(this.range, deserialize(document));
+        if (!this.after || compareOplogTimestamps(ts, this.after) > 0) kept.push(document);
+      }
+
+      this.pending = this.pending.subarray(offset);
+      callback(null, kept.length > 0 ? Buffer.concat(kept) : undefined);
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    callback(this.pending.length > 0 ? new Error('Oplog ends mid-entry') : null);
+  }
+
+  /** Every entry seen, including those dropped */
+  getRange(): OplogRange {
+    return { ...this.range };
+  }
+}
+
+export { OplogInspector };
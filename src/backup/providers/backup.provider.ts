@@ -1,14 +1,29 @@
+import { DestinationResult } from '../../storage/storage.destination';
+
 abstract class BackupProvider {
+  abstract readonly engine: string;
   abstract createBackup(options: BackupOptions): Promise<BackupResult>;
   abstract listBackups(): Promise<BackupInfo[]>;
+  abstract getBackup(id: string): Promise<BackupInfo>;
   abstract restoreBackup(id: string, options?: RestoreOptions): Promise<RestoreResult>;
+  abstract deleteBackup(id: string): Promise<void>;
+  abstract verifyBackup(id: string): Promise<VerificationReport>;
 }
 
 export interface BackupOptions {
   name?: string;
   timestamp?: string;
-  destination?: string;
   compress?: boolean;
+  /** Groups the backup under its job, which also scopes retention */
+  job?: string;
+  /** Connection string to dump instead of the configured one */
+  sourceUri?: string;
+  /** PostgreSQL only: dump one database or the whole cluster */
+  dumpMode?: 'database' | 'cluster';
+  /** MongoDB only: snapshot with `--oplog` and start a chain of oplog slices for point-in-time recovery */
+  oplog?: boolean;
+  /** Names of the storage destinations to write to; all of them when omitted */
+  destinations?: string[];
 }
 
 export interface BackupResult {
@@ -17,7 +32,12 @@ export interface BackupResult {
   timestamp: string;
   size?: number;
   location?: string;
+  /** Outcome per storage destination, including failed ones */
+  destinations?: DestinationResult[];
+  manifest?: BackupManifest;
   error?: string;
+  /** Output of the failed dump tool, when that is what failed */
+  stderr?: string;
 }
 
 export interface BackupInfo {
@@ -26,17 +46,136 @@ export interface BackupInfo {
   size: number;
   name: string;
   location: string;
+  /** Job the backup was taken for, if it was taken by one */
+  job?: string;
+  manifest?: BackupManifest;
+}
+
+export interface ManifestCollection {
+  name: string;
+  documents: number;
+  bytes: number;
+}
+
+export interface ManifestDatabase {
+  name: string;
+  collections: ManifestCollection[];
+}
+
+/** A MongoDB oplog timestamp: seconds, and the ordinal of the operation within that second */
+export interface OplogTimestamp {
+  t: number;
+  i: number;
+}
+
+/** Oplog entries captured after a snapshot, stored next to it */
+export interface OplogSlice {
+  sequence: number;
+  key: string;
+  /** Where the capture started: the end of the slice before it, or of the snapshot */
+  from: OplogTimestamp;
+  /** The last entry captured; `from` when there were none */
+  to: OplogTimestamp;
+  entries: number;
+  size: number;
+  sha256: string;
+  capturedAt: string;
+  /** Entries after `from` had left the oplog before they could be captured */
+  gap?: boolean;
+}
+
+export interface ManifestOplog {
+  /** The last oplog entry in the snapshot, where the chain of slices starts */
+  start: OplogTimestamp;
+  /** False when the snapshot held no oplog entries, and `start` is when the dump began */
+  exact: boolean;
+  slices: OplogSlice[];
+}
+
+export interface BackupManifest {
+  manifestVersion: 1;
+  backupId: string;
+  name: string;
+  engine: string;
+  job?: string;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  tool: { name: string; version?: string };
+  source: { host: string; serverVersion?: string };
+  compression: { enabled: boolean; algorithm?: string };
+  encryption: { enabled: boolean; algorithm?: string; keyProvider?: string; keyId?: string };
+  databases: ManifestDatabase[];
+  archive: { key: string; size: number; sha256: string };
+  /** Set for snapshots taken in oplog mode; also the index of their oplog chain */
+  oplog?: ManifestOplog;
+}
+
+export interface OplogCaptureResult {
+  success: boolean;
+  /** The snapshot the slice was added to */
+  backupId: string;
+  timestamp: string;
+  slice?: OplogSlice;
+  error?: string;
+  /** Output of the failed dump tool, when that is what failed */
+  stderr?: string;
 }
 
 export interface RestoreOptions {
   targetLocation?: string;
+  drop?: boolean;
+  /**
+   * ISO 8601 time to restore to, to the second, by replaying the captured
+   * oplog on top of the snapshot. MongoDB snapshots taken in oplog mode only.
+   */
+  pointInTime?: string;
+}
+
+export interface RestoredCollection {
+  database: string;
+  collection: string;
+  /** Not every restore tool reports row counts */
+  documents?: number;
+  failures?: number;
 }
 
 export interface RestoreResult {
   success: boolean;
   backupId: string;
   timestamp: string;
+  duration?: number;
+  databases?: string[];
+  collections?: RestoredCollection[];
+  documentsRestored?: number;
+  documentsFailed?: number;
+  /** Set when the oplog was replayed up to this time */
+  pointInTime?: string;
   error?: string;
 }
 
+export interface VerificationCheck {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  message?: string;
+}
+
+export interface VerifiedCollection {
+  database: string;
+  collection: string;
+  expectedDocuments?: number;
+  documents?: number;
+}
+
+export interface VerificationReport {
+  valid: boolean;
+  backupId: string;
+  timestamp: string;
+  duration: number;
+  size: number;
+  sha256: string;
+  checks: VerificationCheck[];
+  collections: VerifiedCollection[];
+}
+
 export { BackupProvider };
\ No newline at end of file
@@ -6,27 +6,49 @@ import {
   BackupInfo,
   RestoreOptions,
   RestoreResult,
+  RestoredCollection,
+  BackupManifest,
+  ManifestDatabase,
+  ManifestOplog,
+  OplogCaptureResult,
+  OplogSlice,
+  OplogTimestamp,
+  VerificationCheck,
+  VerificationReport,
+  VerifiedCollection,
 } from './backup.provider';
+import { ArchiveSummary, MongoArchiveInspector } from '../mongo-archive.inspector';
+import {
+  OplogInspector,
+  compareOplogTimestamps,
+  formatOplogTimestamp,
+  oplogTimestampToIso,
+} from '../oplog.inspector';
+import { BackupRepository, StoredArchive } from '../backup.repository';
 import { CommandService } from '../../command/command.service';
 import { ConfigService } from '../../config/config.service';
-import { S3StorageService } from '../../storage/providers/s3.storage.provider';
+import { CommandResult } from '../../command/providers/command.provider';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import fs from 'fs';
-import { PutObjectCommandInput } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { configSchema } from '../../config/config.schema';
 import { z } from 'zod';
-import { ConfigurationError, BackupError } from '../../error';
+import { ApplicationError, ConfigurationError, BackupError } from '../../error';
+import { describeConnectionHost } from '../../utils/connection-string';
 import { Logger } from '../../utils/logger/logger';
 
 @singleton()
 class MongoBackupProvider extends BackupProvider {
+  readonly engine = 'mongodb';
   private readonly tempDir = '/tmp';
 
   constructor(
     @inject(CommandService) private readonly commandService: CommandService,
     @inject(ConfigService)
     private readonly configService: ConfigService<z.infer<typeof configSchema>>,
-    @inject(S3StorageService) private readonly storageService: S3StorageService,
+    @inject(BackupRepository) private readonly repository: BackupRepository,
     @inject(Logger) private readonly logger: Logger,
   ) {
     super();
@@ -50,190 +72,697 @@ class MongoBackupProvider extends BackupProvider {
 
   async createBackup(options: BackupOptions = {}): Promise<BackupResult> {
     try {
-      const timestamp = options.timestamp ?? new Date().toISOString().replace(/[:.]/g, '-');
+      const startedAt = new Date();
+      const timestamp = options.timestamp ?? startedAt.toISOString().replace(/[:.]/g, '-');
       const backupName = options.name ?? `mongodb-backup-${timestamp}`;
-      const backupPath = path.join(this.tempDir, backupName);
-
-      this.logger.info('Starting MongoDB backup', 'MongoBackupProvider', { backupName, timestamp });
-
-      const decodedMongoUri = this.decodeMongoUri();
-      await this.createMongoDump(decodedMongoUri, backupPath);
 
-      this.logger.info('MongoDB dump created successfully', 'MongoBackupProvider', { backupPath });
-
-      const finalBackupPath = await this.compressBackupIfNeeded(backupPath, options.compress);
-      this.logger.info('Backup processed', 'MongoBackupProvider', {
-        compressed: options.compress !== false,
-        finalPath: finalBackupPath,
+      const oplog = options.oplog ?? this.configService.get('MONGO_OPLOG_ENABLED');
+      this.logger.info('Starting MongoDB backup', 'MongoBackupProvider', {
+        backupName,
+        timestamp,
+        oplog,
       });
 
-      const backupResult = await this.uploadBackupToS3(finalBackupPath, options.compress);
-      this.logger.info('Backup uploaded to S3', 'MongoBackupProvider', {
-        s3Key: backupResult.s3Key,
-        size: backupResult.size,
+      const decodedMongoUri = options.sourceUri ?? this.getMongoUri();
+      const configFile = this.writeConnectionConfig(decodedMongoUri);
+      const inspector = new MongoArchiveInspector();
+      let archive: StoredArchive;
+      try {
+        const dump = this.commandService.stream('mongodump', {
+          // With --oplog, the writes made while the dump runs make it a consistent snapshot
+          args: [`--config=${configFile}`, '--archive', ...(oplog ? ['--oplog'] : [])],
+        });
+        archive = await this.repository.uploadArchive({
+          name: backupName,
+          extension: '.archive',
+          source: dump.stdout,
+          completion: dump.completion,
+          tool: 'mongodump',
+          compress: options.compress,
+          job: options.job,
+          destinations: options.destinations,
+          inspectors: [inspector],
+        });
+      } finally {
+        this.removeConnectionConfig(configFile);
+      }
+      this.logger.info('Backup uploaded to storage', 'MongoBackupProvider', {
+        key: archive.key,
+        size: archive.size,
+        stored: archive.destinations.filter(result => result.success).length,
       });
 
-      this.cleanupTemporaryFiles(backupPath, finalBackupPath, options.compress);
+      const manifest = this.buildManifest(
+        backupName,
+        decodedMongoUri,
+        startedAt,
+        archive,
+        inspector.getSummary(),
+        oplog,
+      );
+      await this.repository.saveManifest(manifest, archive.destinations);
 
+      const replicationError = this.repository.checkFailurePolicy(archive.destinations);
       return {
-        success: true,
-        backupId: backupResult.s3Key,
+        success: !replicationError,
+        backupId: archive.key,
         timestamp,
-        size: backupResult.size,
-        location: backupResult.location,
+        size: archive.size,
+        location: archive.location,
+        destinations: archive.destinations,
+        manifest,
+        error: replicationError,
       };
     } catch (error) {
       return this.handleBackupError(error);
     }
   }
 
-  private decodeMongoUri(): string {
-    this.logger.debug('Decoding MongoDB URI', 'MongoBackupProvider');
+  private getMongoUri(): string {
     const mongoUri = this.configService.get('MONGO_URI');
     if (!mongoUri) {
       this.logger.error('MongoDB URI is not configured', 'MongoBackupProvider');
       throw new ConfigurationError('MongoDB URI is not configured');
     }
-    return Buffer.from(mongoUri, 'base64').toString();
+    return mongoUri;
   }
 
-  private async createMongoDump(decodedMongoUri: string, backupPath: string): Promise<void> {
-    this.logger.info('Executing mongodump', 'MongoBackupProvider', { outputPath: backupPath });
+  private buildManifest(
+    backupName: string,
+    decodedMongoUri: string,
+    startedAt: Date,
+    archive: StoredArchive,
+    summary: ArchiveSummary,
+    oplog: boolean,
+  ): BackupManifest {
+    const completedAt = new Date();
+    const databases = new Map<string, ManifestDatabase>();
+    for (const stats of summary.collections) {
+      const database = databases.get(stats.database) ?? { name: stats.database, collections: [] };
+      database.collections.push({
+        name: stats.collection,
+        documents: stats.documents,
+        bytes: stats.bytes,
+      });
+      databases.set(stats.database, database);
+    }
 
-    const result = await this.commandService.execute('mongodump', [
-      `--uri=${decodedMongoUri}`,
-      `--out=${backupPath}`,
-    ]);
+    if (!summary.complete) {
+      this.logger.warn('Archive inspection did not see a complete dump', 'MongoBackupProvider', {
+        key: archive.key,
+      });
+    }
 
-    if (!fs.existsSync(backupPath) || fs.readdirSync(backupPath).length === 0) {
-      this.logger.error('MongoDB backup failed', 'MongoBackupProvider', undefined, {
-        stderr: result.stderr,
+    return {
+      manifestVersion: 1,
+      backupId: archive.key,
+      name: backupName,
+      engine: this.engine,
+      job: archive.job,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      tool: { name: 'mongodump', version: summary.toolVersion },
+      source: {
+        host: describeConnectionHost(decodedMongoUri),
+        serverVersion: summary.serverVersion,
+      },
+      compression: archive.compression,
+      encryption: archive.encryption,
+      databases: [...databases.values()],
+      archive: { key: archive.key, size: archive.size, sha256: archive.sha256 },
+      oplog: oplog ? this.oplogChainStart(summary, startedAt) : undefined,
+    };
+  }
+
+  private oplogChainStart(summary: ArchiveSummary, startedAt: Date): ManifestOplog {
+    const last = summary.oplog?.last;
+    if (last) return { start: last, exact: true, slices: [] };
+    // Nothing was written while the dump ran, so whatever comes after its start is new
+    return { start: { t: Math.floor(startedAt.getTime() / 1000), i: 0 }, exact: false, slices: [] };
+  }
+
+  /**
+   * Appends the oplog entries written since the end of the chain to the latest
+   * snapshot in oplog mode, as the next slice. A capture starts at the last
+   * entry already captured, so not finding that entry again means the oplog
+   * rolled over in between: the chain has a gap, and the slice is marked.
+   */
+  async captureOplog(options: BackupOptions = {}): Promise<OplogCaptureResult> {
+    let backupId = '';
+    try {
+      const snapshot = await this.latestOplogSnapshot(options.job);
+      const { chain } = snapshot;
+      backupId = snapshot.backupId;
+      const previous = chain.slices[chain.slices.length - 1];
+      const from = previous?.to ?? chain.start;
+      const sequence = (previous?.sequence ?? 0) + 1;
+      // Only an entry that was actually captured can be looked for again
+      const anchored = chain.exact || chain.slices.some(slice => slice.entries > 0);
+
+      this.logger.info('Capturing oplog slice', 'MongoBackupProvider', {
+        backupId,
+        sequence,
+        from: formatOplogTimestamp(from),
+      });
+
+      const configFile = this.writeConnectionConfig(
+        this.withoutDatabase(options.sourceUri ?? this.getMongoUri()),
+      );
+      const inspector = new OplogInspector();
+      let archive: StoredArchive;
+      try {
+        const query = JSON.stringify({ ts: { $gte: { $timestamp: from } } });
+        const dump = this.commandService.stream('mongodump', {
+          args: [
+            `--config=${configFile}`,
+            '--db=local',
+            '--collection=oplog.rs',
+            `--query=${query}`,
+            '--out=-',
+          ],
+        });
+        archive = await this.repository.uploadArchive({
+          name: snapshot.manifest.name,
+          extension: '.bson',
+          key: this.repository.oplogSliceKey(backupId, sequence),
+          source: dump.stdout,
+          completion: dump.completion,
+          tool: 'mongodump',
+          compress: options.compress,
+          job: options.job,
+          destinations: options.destinations,
+          inspectors: [inspector],
+        });
+      } finally {
+        this.removeConnectionConfig(configFile);
+      }
+
+      const range = inspector.getRange();
+      const gap = anchored && (!range.first || compareOplogTimestamps(range.first, from) !== 0);
+      const slice: OplogSlice = {
+        sequence,
+        key: archive.key,
+        from,
+        to: range.last ?? from,
+        entries: range.entries,
+        size: archive.size,
+        sha256: archive.sha256,
+        capturedAt: new Date().toISOString(),
+        gap: gap || undefined,
+      };
+
+      if (gap) {
+        this.logger.error('Oplog chain has a gap', 'MongoBackupProvider', undefined, {
+          backupId,
+          sequence,
+          lostAfter: oplogTimestampToIso(from),
+          firstCaptured: range.first && oplogTimestampToIso(range.first),
+        });
+      }
+
+      await this.repository.saveManifest(
+        { ...snapshot.manifest, oplog: { ...chain, slices: [...chain.slices, slice] } },
+        archive.destinations,
+      );
+
+      const replicationError = this.repository.checkFailurePolicy(archive.destinations);
+      this.logger.info('Oplog slice captured', 'MongoBackupProvider', {
+        key: slice.key,
+        entries: slice.entries,
+        to: formatOplogTimestamp(slice.to),
       });
-      throw new BackupError(`MongoDB backup failed: ${result.stderr}`);
+      return {
+        success: !replicationError,
+        backupId,
+        timestamp: slice.capturedAt,
+        slice,
+        error: replicationError,
+      };
+    } catch (error) {
+      this.logger.error('Error during oplog capture', 'MongoBackupProvider', error, { backupId });
+      return {
+        success: false,
+        backupId,
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error during oplog capture',
+        stderr: error instanceof ApplicationError ? this.getStderr(error) : undefined,
+      };
     }
   }
 
-  private async compressBackupIfNeeded(
-    backupPath: string,
-    compress: boolean | undefined,
-  ): Promise<string> {
-    if (compress === false) {
-      this.logger.info('Skipping compression as requested', 'MongoBackupProvider');
-      return backupPath;
+  /** Slices are only ever added to the newest snapshot; older chains end where the next begins */
+  private async latestOplogSnapshot(
+    job?: string,
+  ): Promise<{ backupId: string; manifest: BackupManifest; chain: ManifestOplog }> {
+    const latest = (await this.repository.listBackups()).find(
+      backup =>
+        backup.job === job && this.repository.archiveFormat(backup.backupId).endsWith('.archive'),
+    );
+    const manifest = latest && (await this.repository.getBackup(latest.backupId)).manifest;
+    if (!latest || !manifest?.oplog) {
+      throw new BackupError(
+        `The latest backup${job ? ` of job ${job}` : ''} was not taken in oplog mode; take one before capturing the oplog`,
+        { details: { job, latest: latest?.backupId } },
+      );
     }
+    return { backupId: latest.backupId, manifest, chain: manifest.oplog };
+  }
 
-    this.logger.info('Compressing backup', 'MongoBackupProvider', {
-      source: backupPath,
-      target: `${backupPath}.tar.gz`,
-    });
+  /**
+   * The oplog lives in the `local` database, which --db must name. A database
+   * in the connection string would clash with it, so it is dropped, and kept
+   * as the database to authenticate against when no other is given.
+   */
+  private withoutDatabase(uri: string): string {
+    const match = /^(mongodb(?:\+srv)?:\/\/[^/?]+)\/([^?]*)(?:\?(.*))?$/.exec(uri);
+    if (!match || !match[2]) return uri;
+    const params = new URLSearchParams(match[3] ?? '');
+    if (!params.has('authSource')) params.set('authSource', decodeURIComponent(match[2]));
+    return `${match[1]}/?${params.toString()}`;
+  }
 
-    const tarResult = await this.commandService.execute('tar', [
-      '-czf',
-      `${backupPath}.tar.gz`,
-      '-C',
-      path.dirname(backupPath),
-      path.basename(backupPath),
-    ]);
+  private handleBackupError(error: unknown): BackupResult {
+    this.logger.error('Error during backup process', 'MongoBackupProvider', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error during backup';
+    return {
+      success: false,
+      backupId: '',
+      timestamp: new Date().toISOString(),
+      error: errorMessage,
+      stderr: error instanceof ApplicationError ? this.getStderr(error) : undefined,
+    };
+  }
 
-    if (!tarResult.success) {
-      this.logger.error('Failed to compress backup', 'MongoBackupProvider', undefined, {
-        stderr: tarResult.stderr,
+  private getStderr(error: ApplicationError): string | undefined {
+    const stderr = error.details?.stderr;
+    return typeof stderr === 'string' ? stderr : undefined;
+  }
+
+  async listBackups(): Promise<BackupInfo[]> {
+    return this.repository.listBackups();
+  }
+
+  async getBackup(id: string): Promise<BackupInfo> {
+    return this.repository.getBackup(id);
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    await this.repository.deleteBackup(id);
+  }
+
+  async restoreBackup(id: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const startedAt = Date.now();
+    const restoreDir = path.join(this.tempDir, `restore-${startedAt}`);
+    const archivePath = path.join(restoreDir, path.basename(id));
+
+    try {
+      this.logger.info('Starting MongoDB restore', 'MongoBackupProvider', {
+        backupId: id,
+        customTarget: Boolean(options.targetLocation),
+        drop: options.drop === true,
       });
-      throw new BackupError(`Failed to compress backup: ${tarResult.stderr}`);
-    }
 
-    return `${backupPath}.tar.gz`;
+      const targetUri = options.targetLocation ?? this.getMongoUri();
+      let collections: RestoredCollection[];
+
+      if (this.repository.archiveFormat(id).endsWith('.archive')) {
+        const { manifest } = await this.repository.getBackup(id);
+        // Planned before the target is touched, so a point the chain can't reach changes nothing
+        const replay = options.pointInTime
+          ? this.planOplogReplay(id, manifest, options.pointInTime)
+          : undefined;
+        const archive = await this.repository.openArchive(id);
+        collections = await this.runMongoRestore(
+          targetUri,
+          { archive },
+          { drop: options.drop, oplogReplay: Boolean(manifest?.oplog) },
+        );
+        if (replay) await this.replayOplog(targetUri, replay, restoreDir);
+      } else if (id.endsWith('.tar.gz')) {
+        if (options.pointInTime) {
+          throw new BackupError(`Backup ${id} was not taken in oplog mode`);
+        }
+        // Directory dumps taken before backups were streamed as archives
+        fs.mkdirSync(restoreDir, { recursive: true });
+        await this.repository.downloadArchive(id, archivePath);
+        const dir = await this.extractBackup(archivePath, restoreDir);
+        collections = await this.runMongoRestore(targetUri, { dir }, { drop: options.drop });
+      } else {
+        throw new BackupError(`Unsupported backup format for restore: ${id}`);
+      }
+
+      const result: RestoreResult = {
+        success: true,
+        backupId: id,
+        timestamp: new Date().toISOString(),
+        duration: Date.now() - startedAt,
+        databases: [...new Set(collections.map(c => c.database))],
+        collections,
+        documentsRestored: collections.reduce((sum, c) => sum + (c.documents ?? 0), 0),
+        documentsFailed: collections.reduce((sum, c) => sum + (c.failures ?? 0), 0),
+        pointInTime: options.pointInTime,
+      };
+
+      this.logger.info('MongoDB restore completed', 'MongoBackupProvider', {
+        backupId: id,
+        duration: result.duration,
+        databases: result.databases,
+        documentsRestored: result.documentsRestored,
+        documentsFailed: result.documentsFailed,
+      });
+
+      return result;
+    } catch (error) {
+      return this.handleRestoreError(id, startedAt, error);
+    } finally {
+      this.cleanupRestoreDirectory(restoreDir);
+    }
   }
 
-  private async uploadBackupToS3(
-    finalBackupPath: string,
-    compress: boolean | undefined,
-  ): Promise<{ s3Key: string; size: number; location: string }> {
-    this.logger.info('Reading backup file for S3 upload', 'MongoBackupProvider', {
-      path: finalBackupPath,
+  async verifyBackup(id: string): Promise<VerificationReport> {
+    const startedAt = Date.now();
+    const { manifest } = await this.repository.getBackup(id);
+    this.logger.info('Verifying backup', 'MongoBackupProvider', {
+      backupId: id,
+      hasManifest: Boolean(manifest),
     });
-    const backupFile = fs.readFileSync(finalBackupPath);
-    const bucketName = this.configService.get('AWS_S3_BUCKET_NAME');
 
-    if (!bucketName) {
-      this.logger.error('S3 bucket name is not configured', 'MongoBackupProvider');
-      throw new ConfigurationError('S3 bucket name is not configured');
+    const inspector = new MongoArchiveInspector();
+    // Legacy tarballs are only test-decompressed; their contents aren't inspected
+    const isArchive = this.repository.archiveFormat(id).endsWith('.archive');
+    const scan = await this.repository.scanArchive(id, isArchive ? [inspector] : []);
+
+    const summary = inspector.getSummary();
+    const checks: VerificationCheck[] = [
+      ...this.repository.integrityChecks(manifest, scan),
+      !isArchive
+        ? { name: 'archive-complete', status: 'skipped', message: 'Not a mongodump archive' }
+        : summary.complete
+          ? { name: 'archive-complete', status: 'passed' }
+          : { name: 'archive-complete', status: 'failed', message: 'Archive ends mid-dump' },
+    ];
+
+    const collections: VerifiedCollection[] = summary.collections.map(stats => ({
+      database: stats.database,
+      collection: stats.collection,
+      documents: stats.documents,
+    }));
+    checks.push(this.checkCollections(manifest, collections, isArchive));
+    if (manifest?.oplog) checks.push(this.checkOplogChain(manifest.oplog));
+
+    const report: VerificationReport = {
+      valid: checks.every(check => check.status !== 'failed'),
+      backupId: id,
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - startedAt,
+      size: scan.size,
+      sha256: scan.sha256,
+      checks,
+      collections,
+    };
+
+    this.logger.info('Backup verification finished', 'MongoBackupProvider', {
+      backupId: id,
+      valid: report.valid,
+      failedChecks: checks.filter(check => check.status === 'failed').map(check => check.name),
+    });
+
+    return report;
+  }
+
+  /** Every collection in the manifest must be present with the same document count */
+  private checkCollections(
+    manifest: BackupManifest | undefined,
+    collections: VerifiedCollection[],
+    isArchive: boolean,
+  ): VerificationCheck {
+    if (!manifest || !isArchive) {
+      return { name: 'collections', status: 'skipped', message: 'Nothing to compare against' };
     }
 
-    const decodedBucketName = Buffer.from(bucketName, 'base64').toString();
-    const s3Key = `backups/${path.basename(finalBackupPath)}`;
+    const problems: string[] = [];
+    for (const database of manifest.databases) {
+      for (const expected of database.collections) {
+        const actual = collections.find(
+          candidate =>
+            candidate.database === database.name && candidate.collection === expected.name,
+        );
+        if (!actual) {
+          problems.push(`${database.name}.${expected.name} is missing`);
+          continue;
+        }
+        actual.expectedDocuments = expected.documents;
+        if (actual.documents !== expected.documents) {
+          problems.push(
+            `${database.name}.${expected.name} has ${actual.documents} of ${expected.documents} documents`,
+          );
+        }
+      }
+    }
+
+    return problems.length === 0
+      ? { name: 'collections', status: 'passed' }
+      : { name: 'collections', status: 'failed', message: problems.join('; ') };
+  }
+
+  /** Every slice must start where the one before it ended, without entries lost in between */
+  private checkOplogChain(chain: ManifestOplog): VerificationCheck {
+    let end = chain.start;
+    const gaps: number[] = [];
+    for (const slice of chain.slices) {
+      if (slice.gap || compareOplogTimestamps(slice.from, end) !== 0) gaps.push(slice.sequence);
+      end = slice.to;
+    }
+
+    return gaps.length === 0
+      ? {
+          name: 'oplog-chain',
+          status: 'passed',
+          message: `${chain.slices.length} slice(s), up to ${oplogTimestampToIso(end)}`,
+        }
+      : {
+          name: 'oplog-chain',
+          status: 'failed',
+          message: `Oplog entries were lost before slice(s) ${gaps.join(', ')}`,
+        };
+  }
 
-    this.logger.info('Preparing S3 upload', 'MongoBackupProvider', {
-      bucket: decodedBucketName,
-      key: s3Key,
-      size: backupFile.length,
+  /**
+   * The slices needed to reach `pointInTime`, checked to cover it without
+   * gaps. `--oplogLimit` excludes its own second, so the restored state is the
+   * one at the start of that second.
+   */
+  private planOplogReplay(
+    id: string,
+    manifest: BackupManifest | undefined,
+    pointInTime: string,
+  ): { start: OplogTimestamp; limit: OplogTimestamp; slices: OplogSlice[] } {
+    const chain = manifest?.oplog;
+    if (!chain) {
+      throw new BackupError(`Backup ${id} was not taken in oplog mode`);
+    }
+    const limit = { t: Math.floor(Date.parse(pointInTime) / 1000), i: 0 };
+    if (Number.isNaN(limit.t)) {
+      throw new BackupError(`Invalid point in time: ${pointInTime}`);
+    }
+    if (compareOplogTimestamps(limit, chain.start) <= 0) {
+      throw new BackupError(
+        `${pointInTime} is before the end of backup ${id} at ${oplogTimestampToIso(chain.start)}; restore an earlier backup`,
+      );
+    }
+
+    const slices: OplogSlice[] = [];
+    let end = chain.start;
+    for (const slice of chain.slices) {
+      if (compareOplogTimestamps(end, limit) >= 0) break;
+      if (slice.gap || compareOplogTimestamps(slice.from, end) !== 0) {
+        throw new BackupError(
+          `Oplog entries after ${oplogTimestampToIso(end)} were lost, so backup ${id} can't be restored to ${pointInTime}`,
+          { details: { backupId: id, slice: slice.sequence } },
+        );
+      }
+      slices.push(slice);
+      end = slice.to;
+    }
+
+    if (compareOplogTimestamps(end, limit) < 0) {
+      throw new BackupError(
+        `The oplog of backup ${id} is only captured up to ${oplogTimestampToIso(end)}`,
+        { details: { backupId: id, pointInTime } },
+      );
+    }
+    return { start: chain.start, limit, slices };
+  }
+
+  /** Joins the slices into one oplog.bson and replays it on top of the restored snapshot */
+  private async replayOplog(
+    targetUri: string,
+    replay: { start: OplogTimestamp; limit: OplogTimestamp; slices: OplogSlice[] },
+    restoreDir: string,
+  ): Promise<void> {
+    const oplogDir = path.join(restoreDir, 'oplog');
+    const oplogFile = path.join(oplogDir, 'oplog.bson');
+    fs.mkdirSync(oplogDir, { recursive: true });
+    fs.writeFileSync(oplogFile, '');
+
+    // The snapshot applied everything up to its end, and each slice repeats the last entry of the one before
+    let after = replay.start;
+    for (const slice of replay.slices) {
+      await pipeline(
+        await this.repository.openArchive(slice.key),
+        new OplogInspector(after),
+        fs.createWriteStream(oplogFile, { flags: 'a' }),
+      );
+      after = slice.to;
+    }
+
+    this.logger.info('Replaying oplog', 'MongoBackupProvider', {
+      slices: replay.slices.length,
+      limit: formatOplogTimestamp(replay.limit),
     });
+    await this.runMongoRestore(
+      targetUri,
+      { dir: oplogDir },
+      { oplogReplay: true, oplogLimit: replay.limit },
+    );
+  }
 
-    const s3Params: PutObjectCommandInput = {
-      Bucket: decodedBucketName,
-      Key: s3Key,
-      Body: backupFile,
-      ContentType: compress !== false ? 'application/gzip' : 'application/octet-stream',
-    };
+  private async extractBackup(archivePath: string, restoreDir: string): Promise<string> {
+    this.logger.info('Extracting backup archive', 'MongoBackupProvider', { archivePath });
 
-    await this.storageService.save(s3Params);
+    const tarResult = await this.commandService.execute('tar', [
+      '-xzf',
+      archivePath,
+      '-C',
+      restoreDir,
+    ]);
+    if (!tarResult.success) {
+      this.logger.error('Failed to extract backup', 'MongoBackupProvider', undefined, {
+        stderr: tarResult.stderr,
+      });
+      throw new BackupError(`Failed to extract backup: ${tarResult.stderr}`);
+    }
 
-    return {
-      s3Key,
-      size: backupFile.length,
-      location: `s3://${decodedBucketName}/${s3Key}`,
-    };
+    // Directory dumps were tarred as one top-level directory; archives taken since are
+    // streamed from mongodump --archive and restored without being extracted
+    const dumpDir = fs
+      .readdirSync(restoreDir, { withFileTypes: true })
+      .find(entry => entry.isDirectory());
+
+    if (!dumpDir) {
+      throw new BackupError(`Backup archive does not contain a dump directory: ${archivePath}`);
+    }
+
+    return path.join(restoreDir, dumpDir.name);
   }
 
-  private cleanupTemporaryFiles(
-    backupPath: string,
-    finalBackupPath: string,
-    compress: boolean | undefined,
-  ): void {
-    try {
-      this.logger.info('Cleaning up temporary files', 'MongoBackupProvider');
+  private async runMongoRestore(
+    targetUri: string,
+    source: { dir: string } | { archive: Readable },
+    options: { drop?: boolean; oplogReplay?: boolean; oplogLimit?: OplogTimestamp },
+  ): Promise<RestoredCollection[]> {
+    const { drop, oplogReplay, oplogLimit } = options;
+    this.logger.info('Executing mongorestore', 'MongoBackupProvider', {
+      source: 'dir' in source ? source.dir : 'archive stream',
+      drop,
+      oplogReplay,
+    });
+
+    const configFile = this.writeConnectionConfig(targetUri);
+    const args = [`--config=${configFile}`];
+    if (drop) args.push('--drop');
+    if (oplogReplay) args.push('--oplogReplay');
+    if (oplogLimit) args.push(`--oplogLimit=${formatOplogTimestamp(oplogLimit)}`);
 
-      if (compress !== false) {
-        this.logger.debug('Removing uncompressed backup directory', 'MongoBackupProvider', {
-          path: backupPath,
+    let result: CommandResult;
+    try {
+      if ('dir' in source) {
+        result = await this.commandService.execute('mongorestore', [...args, `--dir=${source.dir}`]);
+      } else {
+        const restore = this.commandService.stream('mongorestore', {
+          args: [...args, '--archive'],
+          input: source.archive,
         });
-        fs.rmSync(backupPath, { recursive: true, force: true });
+        restore.stdout.resume();
+        result = await restore.completion;
       }
+    } finally {
+      this.removeConnectionConfig(configFile);
+    }
+
+    if (!result.success) {
+      this.logger.error('MongoDB restore failed', 'MongoBackupProvider', undefined, {
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      });
+      throw new BackupError(`MongoDB restore failed: ${result.stderr}`);
+    }
 
-      this.logger.debug('Removing backup file', 'MongoBackupProvider', { path: finalBackupPath });
-      fs.rmSync(finalBackupPath, { force: true });
+    // mongorestore reports progress on stderr
+    return this.parseRestoreOutput(result.stderr);
+  }
 
-      this.logger.info('Temporary files cleaned up successfully', 'MongoBackupProvider');
+  /**
+   * The database tools read the connection string from a config file readable
+   * only by us, so the credentials in it never appear in the process list
+   */
+  private writeConnectionConfig(uri: string): string {
+    const configFile = path.join(this.tempDir, `mongo-tools-${randomUUID()}.yaml`);
+    // A JSON string is a valid YAML double-quoted scalar
+    fs.writeFileSync(configFile, `uri: ${JSON.stringify(uri)}\n`, { mode: 0o600 });
+    return configFile;
+  }
+
+  private removeConnectionConfig(configFile: string): void {
+    try {
+      fs.rmSync(configFile, { force: true });
     } catch (cleanupError) {
-      this.logger.warn('Failed to clean up temporary files', 'MongoBackupProvider', { error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError) });
+      this.logger.warn('Failed to remove connection config file', 'MongoBackupProvider', {
+        path: configFile,
+        error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError),
+      });
     }
   }
 
-  private handleBackupError(error: unknown): BackupResult {
-    this.logger.error('Error during backup process', 'MongoBackupProvider', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error during backup';
-    return {
-      success: false,
-      backupId: '',
-      timestamp: new Date().toISOString(),
-      error: errorMessage,
-    };
+  private parseRestoreOutput(output: string): RestoredCollection[] {
+    const pattern = /finished restoring ([^.\s]+)\.(\S+) \((\d+) documents?, (\d+) failures?\)/g;
+    const collections: RestoredCollection[] = [];
+
+    for (const match of output.matchAll(pattern)) {
+      collections.push({
+        database: match[1],
+        collection: match[2],
+        documents: Number(match[3]),
+        failures: Number(match[4]),
+      });
+    }
+
+    return collections;
   }
 
-  async listBackups(): Promise<BackupInfo[]> {
-    this.logger.info('Listing backups (not implemented)', 'MongoBackupProvider');
-    return [];
+  private cleanupRestoreDirectory(restoreDir: string): void {
+    try {
+      this.logger.debug('Removing restore directory', 'MongoBackupProvider', { path: restoreDir });
+      fs.rmSync(restoreDir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      this.logger.warn('Failed to clean up restore directory', 'MongoBackupProvider', {
+        error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError),
+      });
+    }
   }
 
-  async restoreBackup(id: string, _options?: RestoreOptions): Promise<RestoreResult> {
-    this.logger.info('Restore backup requested (not implemented)', 'MongoBackupProvider', {
+  private handleRestoreError(id: string, startedAt: number, error: unknown): RestoreResult {
+    this.logger.error('Error during restore process', 'MongoBackupProvider', error, {
       backupId: id,
     });
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error during restore';
     return {
       success: false,
       backupId: id,
       timestamp: new Date().toISOString(),
-      error: 'Restore functionality not implemented yet',
+      duration: Date.now() - startedAt,
+      error: errorMessage,
     };
   }
 }
@@ -0,0 +1,505 @@
+import { singleton, inject } from 'tsyringe';
+import {
+  BackupProvider,
+  BackupOptions,
+  BackupResult,
+  BackupInfo,
+  RestoreOptions,
+  RestoreResult,
+  RestoredCollection,
+  BackupManifest,
+  ManifestDatabase,
+  VerificationCheck,
+  VerificationReport,
+  VerifiedCollection,
+} from './backup.provider';
+import { BackupRepository, StoredArchive } from '../backup.repository';
+import { CommandService } from '../../command/command.service';
+import { ConfigService } from '../../config/config.service';
+import { CommandResult } from '../../command/providers/command.provider';
+import { once } from 'events';
+import { PassThrough, Readable, Transform } from 'stream';
+import { configSchema } from '../../config/config.schema';
+import { z } from 'zod';
+import { ApplicationError, ConfigurationError, BackupError } from '../../error';
+import {
+  connectionDatabase,
+  describeConnectionHost,
+  splitConnectionPassword,
+} from '../../utils/connection-string';
+import { Logger } from '../../utils/logger/logger';
+
+/** Per-table row estimates and on-disk size, used for the manifest */
+const TABLE_STATS_QUERY =
+  'SELECT schemaname, relname, n_live_tup, pg_total_relation_size(relid) ' +
+  'FROM pg_stat_user_tables ORDER BY 1, 2';
+const DATABASES_QUERY = 'SELECT datname FROM pg_database WHERE NOT datistemplate ORDER BY 1';
+
+interface TocListing {
+  result: CommandResult;
+  tables: { schema: string; table: string }[];
+}
+
+@singleton()
+class PostgresBackupProvider extends BackupProvider {
+  readonly engine = 'postgres';
+
+  constructor(
+    @inject(CommandService) private readonly commandService: CommandService,
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(BackupRepository) private readonly repository: BackupRepository,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    super();
+  }
+
+  async createBackup(options: BackupOptions = {}): Promise<BackupResult> {
+    try {
+      const startedAt = new Date();
+      const timestamp = options.timestamp ?? startedAt.toISOString().replace(/[:.]/g, '-');
+      const backupName = options.name ?? `postgres-backup-${timestamp}`;
+      const cluster =
+        (options.dumpMode ?? this.configService.get('POSTGRES_DUMP_MODE')) === 'cluster';
+      const tool = cluster ? 'pg_dumpall' : 'pg_dump';
+
+      this.logger.info('Starting PostgreSQL backup', 'PostgresBackupProvider', {
+        backupName,
+        timestamp,
+        tool,
+      });
+
+      const decodedPostgresUri = options.sourceUri ?? this.getPostgresUri();
+      // Taken before the dump starts, so the figures describe what the dump saw
+      const databases = await this.describeSource(decodedPostgresUri, cluster);
+      const serverVersion = await this.querySafely(decodedPostgresUri, 'SHOW server_version');
+      const toolVersion = await this.toolVersion(tool);
+
+      // Compression happens in the upload pipeline, so pg_dump's own is switched off
+      const { dbname, env } = this.connection(decodedPostgresUri);
+      const args = cluster ? [dbname] : [dbname, '--format=custom', '--compress=0'];
+      const dump = this.commandService.stream(tool, { args, env });
+      const archive = await this.repository.uploadArchive({
+        name: backupName,
+        extension: cluster ? '.sql' : '.dump',
+        source: dump.stdout,
+        completion: dump.completion,
+        tool,
+        compress: options.compress,
+        job: options.job,
+        destinations: options.destinations,
+      });
+      this.logger.info('Backup uploaded to storage', 'PostgresBackupProvider', {
+        key: archive.key,
+        size: archive.size,
+        stored: archive.destinations.filter(result => result.success).length,
+      });
+
+      const manifest = this.buildManifest(backupName, startedAt, archive, {
+        tool,
+        toolVersion,
+        host: describeConnectionHost(decodedPostgresUri),
+        serverVersion: serverVersion?.[0]?.[0],
+        databases,
+      });
+      await this.repository.saveManifest(manifest, archive.destinations);
+
+      const replicationError = this.repository.checkFailurePolicy(archive.destinations);
+      return {
+        success: !replicationError,
+        backupId: archive.key,
+        timestamp,
+        size: archive.size,
+        location: archive.location,
+        destinations: archive.destinations,
+        manifest,
+        error: replicationError,
+      };
+    } catch (error) {
+      return this.handleBackupError(error);
+    }
+  }
+
+  private getPostgresUri(): string {
+    const postgresUri = this.configService.get('POSTGRES_URI');
+    if (!postgresUri) {
+      this.logger.error('PostgreSQL URI is not configured', 'PostgresBackupProvider');
+      throw new ConfigurationError('PostgreSQL URI is not configured');
+    }
+    return postgresUri;
+  }
+
+  /**
+   * Tables and their sizes for a single-database dump; for a cluster dump only
+   * the database names, since stats would need a connection to each of them.
+   */
+  private async describeSource(uri: string, cluster: boolean): Promise<ManifestDatabase[]> {
+    if (cluster) {
+      const rows = await this.querySafely(uri, DATABASES_QUERY);
+      return (rows ?? []).map(([name]) => ({ name, collections: [] }));
+    }
+
+    const rows = await this.querySafely(uri, TABLE_STATS_QUERY);
+    return [
+      {
+        name: connectionDatabase(uri) ?? 'postgres',
+        collections: (rows ?? []).map(([schema, table, rowCount, bytes]) => ({
+          name: `${schema}.${table}`,
+          documents: Number(rowCount),
+          bytes: Number(bytes),
+        })),
+      },
+    ];
+  }
+
+  /** Manifest details are best effort; a failed query never fails the backup */
+  private async querySafely(uri: string, sql: string): Promise<string[][] | undefined> {
+    const { dbname, env } = this.connection(uri);
+    const result = await this.commandService.executeWithOptions('psql', {
+      args: [
+        '--no-psqlrc',
+        '--tuples-only',
+        '--no-align',
+        '--field-separator=\t',
+        dbname,
+        `--command=${sql}`,
+      ],
+      env,
+      shell: false,
+    });
+
+    if (!result.success) {
+      this.logger.warn('PostgreSQL query for manifest failed', 'PostgresBackupProvider', {
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      });
+      return undefined;
+    }
+
+    return result.stdout
+      .split('\n')
+      .filter(line => line.length > 0)
+      .map(line => line.split('\t'));
+  }
+
+  /** The password goes through PGPASSWORD, so it never appears in the process list */
+  private connection(uri: string): { dbname: string; env?: Record<string, string> } {
+    const { uri: dbname, password } = splitConnectionPassword(uri);
+    return { dbname: `--dbname=${dbname}`, env: password ? { PGPASSWORD: password } : undefined };
+  }
+
+  private async toolVersion(tool: string): Promise<string | undefined> {
+    const result = await this.commandService.executeWithOptions(tool, {
+      args: ['--version'],
+      shell: false,
+    });
+    // e.g. "pg_dump (PostgreSQL) 16.2"
+    return result.success ? /\)\s+(\S+)/.exec(result.stdout)?.[1] : undefined;
+  }
+
+  private buildManifest(
+    backupName: string,
+    startedAt: Date,
+    archive: StoredArchive,
+    source: {
+      tool: string;
+      toolVersion?: string;
+      host: string;
+      serverVersion?: string;
+      databases: ManifestDatabase[];
+    },
+  ): BackupManifest {
+    const completedAt = new Date();
+    return {
+      manifestVersion: 1,
+      backupId: archive.key,
+      name: backupName,
+      engine: this.engine,
+      job: archive.job,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      tool: { name: source.tool, version: source.toolVersion },
+      source: { host: source.host, serverVersion: source.serverVersion },
+      compression: archive.compression,
+      encryption: archive.encryption,
+      databases: source.databases,
+      archive: { key: archive.key, size: archive.size, sha256: archive.sha256 },
+    };
+  }
+
+  private handleBackupError(error: unknown): BackupResult {
+    this.logger.error('Error during backup process', 'PostgresBackupProvider', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error during backup';
+    return {
+      success: false,
+      backupId: '',
+      timestamp: new Date().toISOString(),
+      error: errorMessage,
+      stderr: error instanceof ApplicationError ? this.getStderr(error) : undefined,
+    };
+  }
+
+  private getStderr(error: ApplicationError): string | undefined {
+    const stderr = error.details?.stderr;
+    return typeof stderr === 'string' ? stderr : undefined;
+  }
+
+  async listBackups(): Promise<BackupInfo[]> {
+    return this.repository.listBackups();
+  }
+
+  async getBackup(id: string): Promise<BackupInfo> {
+    return this.repository.getBackup(id);
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    await this.repository.deleteBackup(id);
+  }
+
+  async restoreBackup(id: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const startedAt = Date.now();
+
+    try {
+      if (options.pointInTime) {
+        throw new BackupError('Point-in-time restores are only supported for MongoDB backups');
+      }
+      this.logger.info('Starting PostgreSQL restore', 'PostgresBackupProvider', {
+        backupId: id,
+        customTarget: Boolean(options.targetLocation),
+        drop: options.drop === true,
+      });
+
+      const targetUri = options.targetLocation ?? this.getPostgresUri();
+      const format = this.repository.archiveFormat(id);
+      let collections: RestoredCollection[];
+
+      if (format.endsWith('.dump')) {
+        const archive = await this.repository.openArchive(id);
+        collections = await this.runPgRestore(targetUri, archive, options.drop);
+      } else if (format.endsWith('.sql')) {
+        if (options.drop) {
+          // pg_dumpall scripts decide for themselves whether to drop objects
+          this.logger.warn('drop is ignored for cluster dumps', 'PostgresBackupProvider');
+        }
+        const script = await this.repository.openArchive(id);
+        await this.runPsqlScript(targetUri, script);
+        collections = [];
+      } else {
+        throw new BackupError(`Unsupported backup format for restore: ${id}`);
+      }
+
+      const result: RestoreResult = {
+        success: true,
+        backupId: id,
+        timestamp: new Date().toISOString(),
+        duration: Date.now() - startedAt,
+        databases: [...new Set(collections.map(c => c.database))],
+        collections,
+      };
+
+      this.logger.info('PostgreSQL restore completed', 'PostgresBackupProvider', {
+        backupId: id,
+        duration: result.duration,
+        databases: result.databases,
+        tables: collections.length,
+      });
+
+      return result;
+    } catch (error) {
+      return this.handleRestoreError(id, startedAt, error);
+    }
+  }
+
+  private async runPgRestore(
+    targetUri: string,
+    archive: Readable,
+    drop: boolean | undefined,
+  ): Promise<RestoredCollection[]> {
+    this.logger.info('Executing pg_restore', 'PostgresBackupProvider', { drop });
+
+    const { dbname, env } = this.connection(targetUri);
+    const args = [dbname, '--verbose'];
+    if (drop) args.push('--clean', '--if-exists');
+
+    const restore = this.commandService.stream('pg_restore', { args, env, input: archive });
+    restore.stdout.resume();
+    const result = await restore.completion;
+
+    if (!result.success) {
+      this.logger.error('PostgreSQL restore failed', 'PostgresBackupProvider', undefined, {
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      });
+      throw new BackupError(`PostgreSQL restore failed: ${result.stderr}`);
+    }
+
+    // pg_restore --verbose reports each table it loads on stderr; row counts aren't reported
+    const database = connectionDatabase(targetUri) ?? 'postgres';
+    return [...result.stderr.matchAll(/processing data for table "([^"]+)"/g)].map(match => ({
+      database,
+      collection: match[1],
+    }));
+  }
+
+  private async runPsqlScript(targetUri: string, script: Readable): Promise<void> {
+    this.logger.info('Executing psql with cluster dump', 'PostgresBackupProvider');
+
+    const { dbname, env } = this.connection(targetUri);
+    const restore = this.commandService.stream('psql', {
+      args: ['--no-psqlrc', '--set=ON_ERROR_STOP=1', dbname, '--file=-'],
+      env,
+      input: script,
+    });
+    restore.stdout.resume();
+    const result = await restore.completion;
+
+    if (!result.success) {
+      this.logger.error('PostgreSQL restore failed', 'PostgresBackupProvider', undefined, {
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+      });
+      throw new BackupError(`PostgreSQL restore failed: ${result.stderr}`);
+    }
+  }
+
+  private handleRestoreError(id: string, startedAt: number, error: unknown): RestoreResult {
+    this.logger.error('Error during restore process', 'PostgresBackupProvider', error, {
+      backupId: id,
+    });
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error during restore';
+    return {
+      success: false,
+      backupId: id,
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - startedAt,
+      error: errorMessage,
+    };
+  }
+
+  async verifyBackup(id: string): Promise<VerificationReport> {
+    const startedAt = Date.now();
+    const { manifest } = await this.repository.getBackup(id);
+    this.logger.info('Verifying backup', 'PostgresBackupProvider', {
+      backupId: id,
+      hasManifest: Boolean(manifest),
+    });
+
+    // Plain SQL scripts from pg_dumpall have no table of contents to read
+    const isCustomFormat = this.repository.archiveFormat(id).endsWith('.dump');
+    const toc = isCustomFormat ? this.createTocReader() : undefined;
+    const scan = await this.repository.scanArchive(id, toc ? [toc.inspector] : []);
+    const listing = toc ? await toc.listing : undefined;
+
+    const checks: VerificationCheck[] = [...this.repository.integrityChecks(manifest, scan)];
+    if (!listing) {
+      checks.push({ name: 'archive-toc', status: 'skipped', message: 'Not a custom-format dump' });
+    } else if (!listing.result.success) {
+      checks.push({ name: 'archive-toc', status: 'failed', message: listing.result.stderr });
+    } else {
+      checks.push({ name: 'archive-toc', status: 'passed' });
+    }
+
+    const database = manifest?.databases[0]?.name ?? 'postgres';
+    const collections: VerifiedCollection[] = (listing?.tables ?? []).map(entry => ({
+      database,
+      collection: `${entry.schema}.${entry.table}`,
+    }));
+    checks.push(this.checkTables(manifest, collections, listing));
+
+    const report: VerificationReport = {
+      valid: checks.every(check => check.status !== 'failed'),
+      backupId: id,
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - startedAt,
+      size: scan.size,
+      sha256: scan.sha256,
+      checks,
+      collections,
+    };
+
+    this.logger.info('Backup verification finished', 'PostgresBackupProvider', {
+      backupId: id,
+      valid: report.valid,
+      failedChecks: checks.filter(check => check.status === 'failed').map(check => check.name),
+    });
+
+    return report;
+  }
+
+  /**
+   * Tees the decoded dump into `pg_restore --list`. pg_restore exits once it
+   * has read the table of contents at the head of the archive, after which the
+   * rest of the stream is passed through without being copied.
+   */
+  private createTocReader(): { inspector: Transform; listing: Promise<TocListing> } {
+    const input = new PassThrough();
+    const list = this.commandService.stream('pg_restore', { args: ['--list'], input });
+
+    let output = '';
+    list.stdout.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+
+    let released = false;
+    const listing = list.completion.then(result => {
+      released = true;
+      input.resume();
+      const tables = [...output.matchAll(/^\d+; \d+ \d+ TABLE DATA (\S+) (\S+) /gm)].map(match => ({
+        schema: match[1],
+        table: match[2],
+      }));
+      return { result, tables };
+    });
+
+    const inspector = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        if (released || input.write(chunk)) {
+          callback(null, chunk);
+          return;
+        }
+        Promise.race([once(input, 'drain'), listing]).then(() => callback(null, chunk), callback);
+      },
+      flush(callback) {
+        input.end();
+        listing.then(() => callback(), callback);
+      },
+      destroy(error, callback) {
+        // pg_restore sees a truncated archive and exits
+        input.end();
+        callback(error);
+      },
+    });
+
+    return { inspector, listing };
+  }
+
+  /** Every table in the manifest must have its data in the dump */
+  private checkTables(
+    manifest: BackupManifest | undefined,
+    collections: VerifiedCollection[],
+    listing: TocListing | undefined,
+  ): VerificationCheck {
+    if (!manifest || !listing?.result.success) {
+      return { name: 'tables', status: 'skipped', message: 'Nothing to compare against' };
+    }
+
+    const problems: string[] = [];
+    for (const database of manifest.databases) {
+      for (const expected of database.collections) {
+        const actual = collections.find(candidate => candidate.collection === expected.name);
+        if (!actual) {
+          problems.push(`${expected.name} is missing`);
+          continue;
+        }
+        actual.expectedDocuments = expected.documents;
+      }
+    }
+
+    return problems.length === 0
+      ? { name: 'tables', status: 'passed' }
+      : { name: 'tables', status: 'failed', message: problems.join('; ') };
+  }
+}
+
+export { PostgresBackupProvider };
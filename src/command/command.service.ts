@@ -1,6 +1,11 @@
 import { singleton, inject } from 'tsyringe';
 import { ShellCommandProvider } from './providers/shell.command.provider';
-import { CommandResult, CommandOptions } from './providers/command.provider';
+import {
+  CommandResult,
+  CommandOptions,
+  CommandStream,
+  CommandStreamOptions,
+} from './providers/command.provider';
 
 @singleton()
 class CommandService {
@@ -14,6 +19,10 @@ class CommandService {
     return this.commandProvider.executeWithOptions(command, options);
   }
 
+  stream(command: string, options: CommandStreamOptions = {}): CommandStream {
+    return this.commandProvider.stream(command, options);
+  }
+
   async executeInShell(shellCommand: string): Promise<CommandResult> {
     return this.commandProvider.executeWithOptions(shellCommand, { shell: true });
   }
@@ -1,6 +1,9 @@
+import { Readable } from 'stream';
+
 abstract class CommandProvider {
   abstract execute(command: string, args?: string[]): Promise<CommandResult>;
   abstract executeWithOptions(command: string, options: CommandOptions): Promise<CommandResult>;
+  abstract stream(command: string, options: CommandStreamOptions): CommandStream;
 }
 
 export interface CommandResult {
@@ -18,4 +21,13 @@ export interface CommandOptions {
   shell?: boolean | string;
 }
 
+export interface CommandStreamOptions extends CommandOptions {
+  input?: Readable;
+}
+
+export interface CommandStream {
+  stdout: Readable;
+  completion: Promise<CommandResult>;
+}
+
 export { CommandProvider };
\ No newline at end of file
@@ -1,17 +1,29 @@
-import { singleton } from 'tsyringe';
+import { singleton, inject } from 'tsyringe';
 import { spawn } from 'child_process';
-import { CommandProvider, CommandResult, CommandOptions } from './command.provider';
+import {
+  CommandProvider,
+  CommandResult,
+  CommandOptions,
+  CommandStream,
+  CommandStreamOptions,
+} from './command.provider';
+import { RedactionService } from '../../redaction/redaction.service';
 
 @singleton()
 class ShellCommandProvider extends CommandProvider {
+  constructor(@inject(RedactionService) private readonly redactionService: RedactionService) {
+    super();
+  }
+
   async execute(command: string, args: string[] = []): Promise<CommandResult> {
     return this.executeWithOptions(command, { args });
   }
 
   async executeWithOptions(command: string, options: CommandOptions = {}): Promise<CommandResult> {
-    const { args = [], cwd, env, timeout, shell = true } = options;
+    // Without a shell, arguments reach the tool as they are and are never parsed as shell syntax
+    const { args = [], cwd, env, timeout, shell = false } = options;
 
-    return new Promise((resolve) => {
+    const result = await new Promise<CommandResult>((resolve) => {
       const childProcess = spawn(command, args, {
         cwd,
         env: env ? { ...process.env, ...env } : process.env,
@@ -69,6 +81,86 @@ class ShellCommandProvider extends CommandProvider {
         });
       });
     });
+    return this.redact(result);
+  }
+
+  stream(command: string, options: CommandStreamOptions = {}): CommandStream {
+    // Streams carry binary data, so no shell unless explicitly requested
+    const { args = [], cwd, env, timeout, shell = false, input } = options;
+
+    const childProcess = spawn(command, args, {
+      cwd,
+      env: env ? { ...process.env, ...env } : process.env,
+      shell,
+    });
+
+    // The child may exit before consuming all input; completion reports that
+    childProcess.stdin.on('error', () => undefined);
+    if (input) {
+      input.on('error', (error) => childProcess.stdin.destroy(error));
+      input.pipe(childProcess.stdin);
+    } else {
+      childProcess.stdin.end();
+    }
+
+    const completion = new Promise<CommandResult>((resolve) => {
+      let stderr = '';
+      let timeoutId: NodeJS.Timeout | undefined;
+
+      childProcess.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      if (timeout) {
+        timeoutId = setTimeout(() => {
+          childProcess.kill();
+          resolve({
+            stdout: '',
+            stderr: stderr + '\nCommand execution timed out',
+            exitCode: 124,
+            success: false,
+          });
+        }, timeout);
+      }
+
+      childProcess.on('close', (exitCode) => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+
+        resolve({
+          stdout: '',
+          stderr,
+          exitCode: exitCode ?? 1,
+          success: exitCode === 0,
+        });
+      });
+
+      childProcess.on('error', (error) => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+
+        resolve({
+          stdout: '',
+          stderr: error.message,
+          exitCode: 1,
+          success: false,
+        });
+      });
+    });
+
+    // stdout is the data itself; only the diagnostics are redacted
+    return { stdout: childProcess.stdout, completion: completion.then(result => this.redact(result)) };
+  }
+
+  /** Tools echo their arguments and connection strings in errors, which end up in logs and emails */
+  private redact(result: CommandResult): CommandResult {
+    return {
+      ...result,
+      stdout: this.redactionService.redact(result.stdout),
+      stderr: this.redactionService.redact(result.stderr),
+    };
   }
 }
 
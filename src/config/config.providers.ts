@@ -0,0 +1,36 @@
+import path from 'path';
+import { SSMClient } from '@aws-sdk/client-ssm';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { ConfigProvider, ConfigValues } from './providers/config.provider';
+import { EnvConfigProvider } from './providers/env.config.provider';
+import { EnvFileConfigProvider } from './providers/env-file.config.provider';
+import { DirectoryConfigProvider } from './providers/directory.config.provider';
+import { SsmConfigProvider } from './providers/ssm.config.provider';
+import { SecretsManagerConfigProvider } from './providers/secrets-manager.config.provider';
+
+/**
+ * `.env.<NODE_ENV>`, then SSM Parameter Store, then Secrets Manager, then a
+ * mounted secrets directory, then environment variables; schema defaults sit
+ * below them all and ConfigService overrides above. The settings selecting the
+ * sources can only come from the environment, since they're needed before
+ * anything else is read.
+ */
+export const createDefaultConfigProviders = (
+  env: NodeJS.ProcessEnv = process.env,
+): ConfigProvider<ConfigValues>[] => {
+  const region = env.AWS_REGION ?? 'us-east-1';
+  const providers: ConfigProvider<ConfigValues>[] = [
+    new EnvFileConfigProvider(path.resolve(`.env.${env.NODE_ENV ?? 'development'}`)),
+    // Always present, so `ssm://` and `secret://` references resolve without a path or secret ID
+    new SsmConfigProvider(new SSMClient({ region, maxAttempts: 3 }), env.CONFIG_SSM_PATH),
+    new SecretsManagerConfigProvider(
+      new SecretsManagerClient({ region, maxAttempts: 3 }),
+      env.CONFIG_SECRET_ID,
+    ),
+  ];
+  if (env.CONFIG_SECRETS_DIR) {
+    providers.push(new DirectoryConfigProvider(env.CONFIG_SECRETS_DIR));
+  }
+  providers.push(new EnvConfigProvider(env));
+  return providers;
+};
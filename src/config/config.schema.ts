@@ -1,16 +1,160 @@
 import { z } from "zod";
+import { storageDestinationsSchema } from '../storage/storage.destination';
+import { apiKeysSchema } from '../auth/api-key.schema';
+import { notificationChannels, notificationRoutesSchema } from '../notification/notification.routes';
+
+/** Marks values that environment variables and .env files hold base64 encoded */
+const BASE64 = 'base64';
+
+const flag = (defaultValue: 'true' | 'false') =>
+    z.enum(['true', 'false'], { message: 'Must be "true" or "false"' })
+        .default(defaultValue)
+        .transform(value => value === 'true');
+
+const count = (defaultValue: number) =>
+    z.coerce.number({ message: 'Must be a number' })
+        .int('Must be a whole number')
+        .min(0, 'Must not be negative')
+        .default(defaultValue);
+
+const base64 = () =>
+    z.string()
+        .base64('Must be base64 encoded')
+        .transform(value => Buffer.from(value, 'base64').toString())
+        .describe(BASE64);
+
+/** Base64 encoded URL, for URLs that carry a token */
+const base64Url = () =>
+    base64()
+        .pipe(z.string().url('Must be a URL'))
+        .describe(BASE64);
+
+/** Base64 encoded JSON, validated against `schema` once decoded */
+const base64Json = <T extends z.ZodTypeAny>(schema: T) =>
+    base64()
+        .transform((value, ctx) => {
+            try {
+                return JSON.parse(value) as unknown;
+            } catch {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be base64 encoded JSON' });
+                return z.NEVER;
+            }
+        })
+        .pipe(schema)
+        .describe(BASE64);
+
+const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+/** Comma-separated list */
+const list = <T extends z.ZodTypeAny>(item: T, defaultValue: string) =>
+    z.string()
+        .default(defaultValue)
+        .transform(splitList)
+        .pipe(z.array(item).min(1, 'Must list at least one value'));
+
+/** Base64 encoded, comma-separated list */
+const base64List = <T extends z.ZodTypeAny>(item: T) =>
+    base64()
+        .transform(splitList)
+        .pipe(z.array(item).min(1, 'Must list at least one value'))
+        .describe(BASE64);
 
 const configSchema = z.object({
-    MONGO_URI: z.string().base64(),
-    AWS_S3_BUCKET_NAME: z.string().base64(),
+    BACKUP_ENGINE: z.enum(['mongodb', 'postgres']).optional().default('mongodb'),
+    MONGO_URI: base64().optional(),
+    MONGO_OPLOG_ENABLED: flag('false'),
+    POSTGRES_URI: base64().optional(),
+    POSTGRES_DUMP_MODE: z.enum(['database', 'cluster']).optional().default('database'),
+    STORAGE_PROVIDER: z.enum(['s3', 'filesystem']).optional().default('s3'),
+    STORAGE_ROOT_DIR: z.string().optional(),
+    STORAGE_DESTINATIONS: base64Json(storageDestinationsSchema).optional(),
+    STORAGE_FAILURE_POLICY: z.enum(['all', 'any', 'required']).optional().default('all'),
+    AWS_S3_BUCKET_NAME: base64().optional(),
     NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
     AWS_REGION: z.string().optional().default('us-east-1'),
-    AWS_ACCESS_KEY_ID: z.string().base64(),
-    AWS_SECRET_ACCESS_KEY: z.string().base64(),
+    AWS_ACCESS_KEY_ID: base64().optional(),
+    AWS_SECRET_ACCESS_KEY: base64().optional(),
+    AWS_SESSION_TOKEN: base64().optional(),
+    S3_ENDPOINT: z.string().url('Must be a URL').optional(),
+    S3_FORCE_PATH_STYLE: flag('false'),
+    S3_TLS_VERIFY: flag('true'),
+    S3_CA_BUNDLE: z.string().optional(),
+    S3_SIGNATURE_VERSION: z.enum(['v4', 'v4a']).optional().default('v4'),
+    S3_UPLOAD_PART_SIZE_MB: count(16).pipe(z.number().positive('Must be at least 1')),
+    S3_UPLOAD_QUEUE_SIZE: count(4).pipe(z.number().positive('Must be at least 1')),
+    CONFIG_SSM_PATH: z.string().optional(),
+    CONFIG_SECRET_ID: z.string().optional(),
+    CONFIG_SECRETS_DIR: z.string().optional(),
+    CONFIG_CACHE_TTL_SECONDS: count(300),
+    JOBS_FILE: z.string().optional(),
+    API_AUTH_ENABLED: flag('true'),
+    API_KEYS: base64Json(apiKeysSchema).optional(),
+    API_AUTH_MAX_SKEW_SECONDS: count(300),
     LOG_LEVEL: z.enum(['DEBUG', 'INFO', 'WARN', 'ERROR']).optional().default('INFO'),
-    NOTIFICATION_SENDER_EMAIL: z.string().base64().optional(),
-    NOTIFICATION_RECIPIENTS: z.string().base64().optional(),
-    NOTIFICATIONS_ENABLED: z.enum(['true', 'false']).optional().default('false'),
+    LOG_FORMAT: z.enum(['text', 'json']).optional().default('text'),
+    LOG_SINKS: list(z.enum(['console', 'file'], { message: 'Must be a list of console or file' }), 'console'),
+    LOG_FILE: z.string().optional(),
+    METRICS_ENABLED: flag('true'),
+    METRICS_EXPORTERS: list(z.enum(['emf', 'prometheus'], { message: 'Must be a list of emf or prometheus' }), 'emf'),
+    METRICS_NAMESPACE: z.string().optional().default('BackupNimbus'),
+    METRICS_PROMETHEUS_FILE: z.string().optional(),
+    NOTIFICATION_SENDER_EMAIL: base64().optional(),
+    NOTIFICATION_RECIPIENTS: base64List(z.string().email('Must be a list of email addresses')).optional(),
+    NOTIFICATIONS_ENABLED: flag('false'),
+    NOTIFICATION_CHANNELS: list(z.enum(notificationChannels, { message: 'Must be a list of email, smtp, webhook or slack' }), 'email'),
+    NOTIFICATION_ROUTES: base64Json(notificationRoutesSchema).optional(),
+    NOTIFICATION_SUCCESS_DELIVERY: z.enum(['immediate', 'digest', 'mute']).optional().default('immediate'),
+    NOTIFICATION_THROTTLE_MINUTES: count(60),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: count(587).pipe(z.number().positive('Must be at least 1').max(65535, 'Must be a port number')),
+    SMTP_TLS_MODE: z.enum(['starttls', 'tls', 'none']).optional().default('starttls'),
+    SMTP_TLS_VERIFY: flag('true'),
+    SMTP_USERNAME: base64().optional(),
+    SMTP_PASSWORD: base64().optional(),
+    NOTIFICATION_WEBHOOK_URL: base64Url().optional(),
+    NOTIFICATION_WEBHOOK_SECRET: base64().optional(),
+    NOTIFICATION_SLACK_WEBHOOK_URL: base64Url().optional(),
+    NOTIFICATION_WEBHOOK_MAX_ATTEMPTS: count(3).pipe(z.number().positive('Must be at least 1')),
+    NOTIFICATION_WEBHOOK_TIMEOUT_SECONDS: count(10).pipe(z.number().positive('Must be at least 1')),
+    NOTIFICATION_TEMPLATE_DIR: z.string().optional(),
+    NOTIFICATION_LOCALE: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Must be a locale such as en or de').optional().default('en'),
+    NOTIFICATION_BRAND_NAME: z.string().optional().default('BackupNimbus'),
+    NOTIFICATION_BRAND_COLOR: z.string().regex(/^#[0-9a-fA-F]{3,8}$/, 'Must be a hex colour such as #4CAF50').optional().default('#4CAF50'),
+    NOTIFICATION_BRAND_LOGO_URL: z.string().url('Must be a URL').optional(),
+    ENCRYPTION_ENABLED: flag('false'),
+    ENCRYPTION_KEY_PROVIDER: z.enum(['local', 'kms']).optional().default('local'),
+    ENCRYPTION_KEY_FILE: z.string().optional(),
+    ENCRYPTION_KMS_KEY_ID: z.string().optional(),
+    RETENTION_ENABLED: flag('false'),
+    RETENTION_DRY_RUN: flag('false'),
+    RETENTION_KEEP_LAST: count(0),
+    RETENTION_KEEP_DAILY: count(0),
+    RETENTION_KEEP_WEEKLY: count(0),
+    RETENTION_KEEP_MONTHLY: count(0),
 });
 
-export { configSchema };
\ No newline at end of file
+/** Configuration as consumers see it: decoded, parsed and with defaults applied */
+export type Config = z.infer<typeof configSchema>;
+
+/** Keys whose environment values are base64 encoded, while secret stores hold them as-is */
+const base64Keys: ReadonlySet<string> = new Set(
+    Object.entries(configSchema.shape)
+        .filter(([, type]) => type.description === BASE64)
+        .map(([key]) => key)
+);
+
+/** Keys holding credentials, or structures with them, whose values are redacted wherever they could be written out */
+const secretKeys: ReadonlySet<string> = new Set([
+    'MONGO_URI',
+    'POSTGRES_URI',
+    'STORAGE_DESTINATIONS',
+    'AWS_SECRET_ACCESS_KEY',
+    'AWS_SESSION_TOKEN',
+    'API_KEYS',
+    'SMTP_PASSWORD',
+    'NOTIFICATION_WEBHOOK_URL',
+    'NOTIFICATION_WEBHOOK_SECRET',
+    'NOTIFICATION_SLACK_WEBHOOK_URL',
+]);
+
+export { configSchema, base64Keys, secretKeys };
\ No newline at end of file
@@ -1,41 +1,194 @@
-import { singleton } from 'tsyringe';
-import { configSchema } from './config.schema';
-import { ConfigProvider } from './providers/config.provider';
-import { z } from 'zod';
-import { ApplicationError, ConfigurationError, ValidationError } from '../error';
+import { container, inject, singleton } from 'tsyringe';
+import { Config, base64Keys, configSchema, secretKeys } from './config.schema';
+import {
+  CONFIG_PROVIDERS,
+  ConfigProvider,
+  ConfigValues,
+  isReferenceResolver,
+} from './providers/config.provider';
+import { createDefaultConfigProviders } from './config.providers';
+import { ConfigurationError } from '../error';
+import { RedactionService } from '../redaction/redaction.service';
 
+const REFERENCE_PATTERN = /^(ssm|secret):\/\//;
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+if (!container.isRegistered(CONFIG_PROVIDERS)) {
+  container.register(CONFIG_PROVIDERS, { useFactory: () => createDefaultConfigProviders() });
+}
+
+/**
+ * Merges the configured sources, later ones taking precedence, and parses the
+ * result into typed values: schema defaults first, overrides last. Environment
+ * variables are available from construction; secret stores and
+ * `ssm://`/`secret://` references once `load()` has run, after which values
+ * are cached for warm invocations until the TTL passes.
+ */
 @singleton()
-class ConfigService<T extends object = z.infer<typeof configSchema>> extends ConfigProvider<T> {
+class ConfigService<T extends object = Config> extends ConfigProvider<T> {
   private config: T = {} as T;
-  constructor() {
+  private overrides: ConfigValues = {};
+  private loadedAt?: number;
+  private loading?: Promise<void>;
+  private readonly references = new Map<string, string>();
+
+  constructor(
+    @inject(CONFIG_PROVIDERS) private readonly providers: ConfigProvider<ConfigValues>[],
+    @inject(RedactionService) private readonly redactionService: RedactionService,
+  ) {
     super();
-    this.validateConfig();
+    // References stay unset until load() can resolve them
+    this.validateConfig(this.merge(true));
   }
 
-  private validateConfig() {
+  /** Loads every source and resolves references, unless the cached values are still fresh */
+  async load(force = false): Promise<void> {
+    if (!force && this.loadedAt !== undefined && Date.now() - this.loadedAt < this.cacheTtlMs()) {
+      return;
+    }
+    this.loading ??= this.refresh().finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Sets values that take precedence over every source, such as command-line
+   * flags or test settings. They're given as plain text, never base64.
+   */
+  async override(
+    values: Partial<Record<keyof T & string, string | number | boolean>>,
+  ): Promise<void> {
+    const previous = this.overrides;
+    this.overrides = { ...previous };
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) this.overrides[key] = String(value);
+    }
     try {
-      const { success, data, error } = configSchema.safeParse(process.env);
-      if (!success) {
-        throw new ValidationError(`Configuration validation failed: ${error}`, {
-          details: { zodError: error }
-        });
+      if (this.loadedAt === undefined) {
+        this.validateConfig(this.merge(true));
+      } else {
+        await this.apply();
       }
-      if (data) this.config = data as T;
     } catch (error) {
-      if (error instanceof ApplicationError) {
-        throw error;
+      // Invalid overrides are rejected whole, leaving the previous configuration in place
+      this.overrides = previous;
+      throw error;
+    }
+  }
+
+  /** Returns the value a `ssm://` or `secret://` reference points to; other values as they are */
+  async resolveReference(value: string): Promise<string> {
+    if (!REFERENCE_PATTERN.test(value)) return value;
+
+    const cached = this.references.get(value);
+    if (cached !== undefined) return cached;
+
+    // Highest precedence first, so a registered stand-in wins over the real store
+    const resolver = [...this.providers]
+      .reverse()
+      .filter(isReferenceResolver)
+      .find(provider => provider.canResolve(value));
+    if (!resolver) {
+      throw new ConfigurationError(`No configuration source can resolve: ${value}`);
+    }
+    const resolved = await resolver.resolveReference(value);
+    // Whatever is kept in a secret store is treated as a secret
+    this.redactionService.addSecret(resolved);
+    this.references.set(value, resolved);
+    return resolved;
+  }
+
+  /**
+   * Looks up a key outside the schema, such as a job's connection variable, in
+   * the same sources and order as the schema's keys. References are resolved,
+   * and values from sources that hold base64, like the environment, decoded.
+   */
+  async lookup(key: string): Promise<string | undefined> {
+    const source = this.findValue(key);
+    if (!source) return undefined;
+    if (REFERENCE_PATTERN.test(source.value)) return this.resolveReference(source.value);
+    return source.plainText ? source.value : Buffer.from(source.value, 'base64').toString();
+  }
+
+  private async refresh(): Promise<void> {
+    await Promise.all(this.providers.map(provider => provider.load()));
+    this.references.clear();
+    await this.apply();
+    this.loadedAt = Date.now();
+  }
+
+  /** Merges the sources as currently loaded, resolving references */
+  private async apply(): Promise<void> {
+    const values = this.merge(false);
+    for (const [key, value] of Object.entries(values)) {
+      if (!REFERENCE_PATTERN.test(value)) continue;
+      values[key] = this.encodeIfNeeded(key, await this.resolveReference(value), true);
+    }
+    this.validateConfig(values);
+  }
+
+  /** Takes each key from the highest-precedence source that has it */
+  private merge(skipReferences: boolean): ConfigValues {
+    const values: ConfigValues = {};
+    for (const key of Object.keys(configSchema.shape)) {
+      const source = this.findValue(key);
+      if (!source) continue;
+      if (!REFERENCE_PATTERN.test(source.value)) {
+        values[key] = this.encodeIfNeeded(key, source.value, source.plainText);
+      } else if (!skipReferences) {
+        values[key] = source.value;
       }
-      throw new ConfigurationError('Failed to validate configuration', { cause: error });
+    }
+    return values;
+  }
+
+  private findValue(key: string): { value: string; plainText: boolean } | undefined {
+    const override = this.overrides[key];
+    if (override !== undefined) return { value: override, plainText: true };
+
+    for (const provider of [...this.providers].reverse()) {
+      const value = provider.has(key) ? provider.get(key) : undefined;
+      if (value !== undefined) return { value, plainText: provider.plainText };
+    }
+    return undefined;
+  }
+
+  /** Secret stores hold plain values; encode them where the schema decodes base64 */
+  private encodeIfNeeded(key: string, value: string, plainText: boolean): string {
+    return plainText && base64Keys.has(key) ? Buffer.from(value).toString('base64') : value;
+  }
+
+  private cacheTtlMs(): number {
+    const config = this.config as Partial<Config>;
+    return (config.CONFIG_CACHE_TTL_SECONDS ?? DEFAULT_CACHE_TTL_SECONDS) * 1000;
+  }
+
+  private validateConfig(values: ConfigValues): void {
+    const result = configSchema.safeParse(values);
+    if (!result.success) {
+      // Only keys and messages: the values are often secrets
+      const problems = result.error.issues.map(
+        issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+      );
+      throw new ConfigurationError(`Invalid configuration:\n${problems.join('\n')}`, {
+        details: { problems },
+      });
+    }
+    this.config = result.data as T;
+    for (const key of secretKeys) {
+      const value = this.config[key as keyof T];
+      // Of a structure, only the secret-looking properties: not bucket or destination names
+      this.redactionService.addSecretsFrom(value, typeof value === 'string');
     }
   }
 
-  get<K extends keyof T>(key: K): string | undefined {
-    const value = this.config[key];
-    return typeof value === 'string' ? value : undefined;
+  get<K extends keyof T>(key: K): T[K] {
+    return this.config[key];
   }
 
   has<K extends keyof T>(key: K): boolean {
-    return key in this.config;
+    return this.config[key] !== undefined;
   }
 }
 
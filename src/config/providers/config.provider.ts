@@ -1,6 +1,34 @@
+import { InjectionToken } from 'tsyringe';
+
 abstract class ConfigProvider <T>{
-    abstract get(key: keyof T): string | undefined;
+    /** Secret stores hold values as-is; environment variables keep the base64 convention */
+    readonly plainText: boolean = false;
+    /** Fetches values from a remote or file-backed source */
+    async load(): Promise<void> {
+        // Sources read on demand, like the environment, have nothing to fetch
+    }
+    abstract get<K extends keyof T>(key: K): T[K] | undefined;
     abstract has(key: keyof T): boolean;
 }
 
+/** Values keyed by configuration key, as held by a single source */
+export type ConfigValues = Record<string, string>;
+
+/** A source that can resolve references such as `ssm:///app/mongo-uri` found in other values */
+export interface ReferenceResolver {
+    canResolve(reference: string): boolean;
+    resolveReference(reference: string): Promise<string>;
+}
+
+export const isReferenceResolver = <T>(provider: T): provider is T & ReferenceResolver =>
+    typeof (provider as Partial<ReferenceResolver>).resolveReference === 'function';
+
+/**
+ * The sources ConfigService reads, lowest precedence first. Register a
+ * different list under this token, e.g. of StaticConfigProviders, to run
+ * without AWS. Declared here, away from the providers' own imports, so the
+ * token exists before ConfigService's decorators run.
+ */
+export const CONFIG_PROVIDERS: InjectionToken<ConfigProvider<ConfigValues>[]> = 'ConfigProviders';
+
 export { ConfigProvider };
\ No newline at end of file
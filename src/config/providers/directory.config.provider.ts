@@ -0,0 +1,45 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ConfigProvider, ConfigValues } from './config.provider';
+import { ConfigurationError } from '../../error';
+
+/**
+ * Reads one file per key from a mounted secrets directory, the layout used by
+ * Docker and Kubernetes secrets: `/run/secrets/MONGO_URI` holds MONGO_URI.
+ */
+class DirectoryConfigProvider extends ConfigProvider<ConfigValues> {
+  readonly plainText = true;
+  private values: ConfigValues = {};
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    try {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true });
+      const files = entries.filter(entry => entry.isFile() && !entry.name.startsWith('.'));
+      const values: ConfigValues = {};
+      for (const file of files) {
+        const contents = await fs.readFile(path.join(this.directory, file.name), 'utf8');
+        // Editors and `echo` leave a trailing newline that is never part of the secret
+        values[file.name] = contents.replace(/\r?\n$/, '');
+      }
+      this.values = values;
+    } catch (error) {
+      throw new ConfigurationError(`Failed to read secrets directory: ${this.directory}`, {
+        cause: error,
+      });
+    }
+  }
+
+  get(key: string): string | undefined {
+    return this.values[key];
+  }
+
+  has(key: string): boolean {
+    return key in this.values;
+  }
+}
+
+export { DirectoryConfigProvider };
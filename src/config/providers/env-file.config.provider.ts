@@ -0,0 +1,43 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { ConfigProvider, ConfigValues } from './config.provider';
+import { ConfigurationError } from '../../error';
+
+/**
+ * Reads a dotenv file such as `.env.production`. Its values follow the
+ * environment's conventions, base64 included. A missing file is simply empty,
+ * so environments without one need no setup.
+ */
+class EnvFileConfigProvider extends ConfigProvider<ConfigValues> {
+  private values?: ConfigValues;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  get(key: string): string | undefined {
+    return this.getValues()[key];
+  }
+
+  has(key: string): boolean {
+    return key in this.getValues();
+  }
+
+  // Read synchronously on first use, so the file applies from construction like the environment
+  private getValues(): ConfigValues {
+    if (this.values) return this.values;
+
+    try {
+      this.values = fs.existsSync(this.filePath)
+        ? dotenv.parse(fs.readFileSync(this.filePath))
+        : {};
+    } catch (error) {
+      throw new ConfigurationError(`Failed to read environment file: ${this.filePath}`, {
+        cause: error,
+      });
+    }
+    return this.values;
+  }
+}
+
+export { EnvFileConfigProvider };
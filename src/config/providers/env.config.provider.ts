@@ -0,0 +1,18 @@
+import { ConfigProvider, ConfigValues } from './config.provider';
+
+/** Reads process environment variables, which are always current */
+class EnvConfigProvider extends ConfigProvider<ConfigValues> {
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {
+    super();
+  }
+
+  get(key: string): string | undefined {
+    return this.env[key];
+  }
+
+  has(key: string): boolean {
+    return this.env[key] !== undefined;
+  }
+}
+
+export { EnvConfigProvider };
@@ -0,0 +1,87 @@
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { ConfigProvider, ConfigValues, ReferenceResolver } from './config.provider';
+import { ConfigurationError } from '../../error';
+
+const SECRET_SCHEME = 'secret://';
+
+/**
+ * Loads configuration from a Secrets Manager secret holding a JSON object of
+ * keys and values, and resolves `secret://<secret id>[#<json key>]` references.
+ */
+class SecretsManagerConfigProvider
+  extends ConfigProvider<ConfigValues>
+  implements ReferenceResolver
+{
+  readonly plainText = true;
+  private values: ConfigValues = {};
+
+  constructor(
+    private readonly client: SecretsManagerClient,
+    private readonly secretId?: string,
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    if (!this.secretId) return;
+
+    const secret = await this.fetchSecret(this.secretId);
+    const parsed = this.parseJson(secret, this.secretId);
+    this.values = Object.fromEntries(
+      Object.entries(parsed).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value : JSON.stringify(value),
+      ]),
+    );
+  }
+
+  get(key: string): string | undefined {
+    return this.values[key];
+  }
+
+  has(key: string): boolean {
+    return key in this.values;
+  }
+
+  canResolve(reference: string): boolean {
+    return reference.startsWith(SECRET_SCHEME);
+  }
+
+  /** The whole secret string, or one field of a JSON secret after `#` */
+  async resolveReference(reference: string): Promise<string> {
+    const [secretId, field] = reference.slice(SECRET_SCHEME.length).split('#', 2);
+    const secret = await this.fetchSecret(secretId);
+    if (field === undefined) return secret;
+
+    const value = this.parseJson(secret, secretId)[field];
+    if (value === undefined) {
+      throw new ConfigurationError(`Secret ${secretId} has no field: ${field}`);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  private async fetchSecret(secretId: string): Promise<string> {
+    try {
+      const response = await this.client.send(new GetSecretValueCommand({ SecretId: secretId }));
+      if (response.SecretString !== undefined) return response.SecretString;
+      if (response.SecretBinary) return Buffer.from(response.SecretBinary).toString();
+    } catch (error) {
+      throw new ConfigurationError(`Failed to read secret: ${secretId}`, { cause: error });
+    }
+    throw new ConfigurationError(`Secret has no value: ${secretId}`);
+  }
+
+  private parseJson(secret: string, secretId: string): Record<string, unknown> {
+    try {
+      const parsed: unknown = JSON.parse(secret);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new ConfigurationError(`Secret ${secretId} is not a JSON object`);
+  }
+}
+
+export { SecretsManagerConfigProvider };
@@ -0,0 +1,86 @@
+import {
+  GetParameterCommand,
+  GetParametersByPathCommand,
+  GetParametersByPathCommandOutput,
+  SSMClient,
+} from '@aws-sdk/client-ssm';
+import { ConfigProvider, ConfigValues, ReferenceResolver } from './config.provider';
+import { ConfigurationError } from '../../error';
+
+const SSM_SCHEME = 'ssm://';
+
+/**
+ * Loads every parameter under a path from SSM Parameter Store, keyed by the
+ * last segment of its name, and resolves `ssm://<parameter name>` references.
+ * SecureString parameters are decrypted.
+ */
+class SsmConfigProvider extends ConfigProvider<ConfigValues> implements ReferenceResolver {
+  readonly plainText = true;
+  private values: ConfigValues = {};
+
+  constructor(
+    private readonly client: SSMClient,
+    private readonly parameterPath?: string,
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    if (!this.parameterPath) return;
+
+    const values: ConfigValues = {};
+    let nextToken: string | undefined;
+    try {
+      do {
+        const page: GetParametersByPathCommandOutput = await this.client.send(
+          new GetParametersByPathCommand({
+            Path: this.parameterPath,
+            WithDecryption: true,
+            NextToken: nextToken,
+          }),
+        );
+        for (const parameter of page.Parameters ?? []) {
+          if (!parameter.Name || parameter.Value === undefined) continue;
+          values[parameter.Name.slice(parameter.Name.lastIndexOf('/') + 1)] = parameter.Value;
+        }
+        nextToken = page.NextToken;
+      } while (nextToken);
+    } catch (error) {
+      throw new ConfigurationError(`Failed to load SSM parameters under ${this.parameterPath}`, {
+        cause: error,
+      });
+    }
+    this.values = values;
+  }
+
+  get(key: string): string | undefined {
+    return this.values[key];
+  }
+
+  has(key: string): boolean {
+    return key in this.values;
+  }
+
+  canResolve(reference: string): boolean {
+    return reference.startsWith(SSM_SCHEME);
+  }
+
+  /** `ssm:///prod/mongo-uri` names the parameter `/prod/mongo-uri` */
+  async resolveReference(reference: string): Promise<string> {
+    const name = reference.slice(SSM_SCHEME.length);
+    try {
+      const response = await this.client.send(
+        new GetParameterCommand({ Name: name, WithDecryption: true }),
+      );
+      if (response.Parameter?.Value === undefined) {
+        throw new ConfigurationError(`SSM parameter has no value: ${name}`);
+      }
+      return response.Parameter.Value;
+    } catch (error) {
+      if (error instanceof ConfigurationError) throw error;
+      throw new ConfigurationError(`Failed to resolve SSM parameter: ${name}`, { cause: error });
+    }
+  }
+}
+
+export { SsmConfigProvider };
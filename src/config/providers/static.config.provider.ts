@@ -0,0 +1,34 @@
+import { ConfigProvider, ConfigValues, ReferenceResolver } from './config.provider';
+
+/**
+ * Fixed values and references held in memory, standing in for SSM or Secrets
+ * Manager in tests and local runs.
+ */
+class StaticConfigProvider extends ConfigProvider<ConfigValues> implements ReferenceResolver {
+  readonly plainText = true;
+
+  constructor(
+    private readonly values: ConfigValues = {},
+    private readonly references: ConfigValues = {},
+  ) {
+    super();
+  }
+
+  get(key: string): string | undefined {
+    return this.values[key];
+  }
+
+  has(key: string): boolean {
+    return key in this.values;
+  }
+
+  canResolve(reference: string): boolean {
+    return reference in this.references;
+  }
+
+  async resolveReference(reference: string): Promise<string> {
+    return this.references[reference];
+  }
+}
+
+export { StaticConfigProvider };
@@ -0,0 +1,158 @@
+import { singleton, inject } from 'tsyringe';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { z } from 'zod';
+import { KeyProvider } from './providers/key.provider';
+import { LocalKeyProvider } from './providers/local.key.provider';
+import { KmsKeyProvider } from './providers/kms.key.provider';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { EncryptionError } from '../error';
+import { Logger } from '../utils/logger/logger';
+
+const ALGORITHM = 'AES-256-GCM';
+const DATA_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+// GCM's counter space for a single key/IV pair is 2^32 - 2 blocks (~64 GiB)
+const MAX_PLAINTEXT_BYTES = (2 ** 32 - 2) * 16;
+
+/** Object metadata keys describing how an archive was encrypted */
+export const ENCRYPTION_METADATA = {
+  algorithm: 'encryption-algorithm',
+  keyProvider: 'encryption-key-provider',
+  keyId: 'encryption-key-id',
+  wrappedKey: 'encryption-wrapped-key',
+  iv: 'encryption-iv',
+} as const;
+
+export interface EncryptionStream {
+  stream: Transform;
+  metadata: Record<string, string>;
+}
+
+@singleton()
+class EncryptionService {
+  constructor(
+    @inject(LocalKeyProvider) private readonly localKeyProvider: LocalKeyProvider,
+    @inject(KmsKeyProvider) private readonly kmsKeyProvider: KmsKeyProvider,
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('ENCRYPTION_ENABLED');
+  }
+
+  isEncrypted(metadata?: Record<string, string>): boolean {
+    return metadata?.[ENCRYPTION_METADATA.algorithm] === ALGORITHM;
+  }
+
+  /**
+   * Creates a stream that encrypts with a fresh data key. The GCM auth tag is
+   * appended to the ciphertext; the wrapped key and IV go into object metadata.
+   */
+  async createEncryptStream(): Promise<EncryptionStream> {
+    const keyProvider = this.getKeyProvider(this.configService.get('ENCRYPTION_KEY_PROVIDER'));
+    const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const wrappedKey = await keyProvider.wrapKey(dataKey);
+
+    this.logger.info('Encrypting backup with a new data key', 'EncryptionService', {
+      keyProvider: keyProvider.name,
+      keyId: wrappedKey.keyId,
+    });
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+    let bytes = 0;
+    const stream = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        if (bytes > MAX_PLAINTEXT_BYTES) {
+          callback(new EncryptionError('Backup exceeds the AES-GCM size limit for one data key'));
+          return;
+        }
+        callback(null, cipher.update(chunk));
+      },
+      flush(callback) {
+        this.push(cipher.final());
+        callback(null, cipher.getAuthTag());
+      },
+    });
+
+    const metadata: Record<string, string> = {
+      [ENCRYPTION_METADATA.algorithm]: ALGORITHM,
+      [ENCRYPTION_METADATA.keyProvider]: keyProvider.name,
+      [ENCRYPTION_METADATA.wrappedKey]: wrappedKey.ciphertext.toString('base64'),
+      [ENCRYPTION_METADATA.iv]: iv.toString('base64'),
+    };
+    if (wrappedKey.keyId) metadata[ENCRYPTION_METADATA.keyId] = wrappedKey.keyId;
+
+    return { stream, metadata };
+  }
+
+  /**
+   * Creates a stream that decrypts an archive written by createEncryptStream.
+   * Plaintext is emitted before the auth tag is checked, so consumers must treat
+   * a stream error as fatal for everything they received.
+   */
+  async createDecryptStream(metadata: Record<string, string>): Promise<Transform> {
+    if (!this.isEncrypted(metadata)) {
+      throw new EncryptionError('Backup object is missing encryption metadata');
+    }
+
+    const keyProvider = this.getKeyProvider(metadata[ENCRYPTION_METADATA.keyProvider]);
+    const dataKey = await keyProvider.unwrapKey({
+      keyId: metadata[ENCRYPTION_METADATA.keyId],
+      ciphertext: Buffer.from(metadata[ENCRYPTION_METADATA.wrappedKey] ?? '', 'base64'),
+    });
+    const iv = Buffer.from(metadata[ENCRYPTION_METADATA.iv] ?? '', 'base64');
+
+    this.logger.info('Decrypting backup', 'EncryptionService', {
+      keyProvider: keyProvider.name,
+      keyId: metadata[ENCRYPTION_METADATA.keyId],
+    });
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, iv);
+    // The last TAG_LENGTH bytes are the auth tag, so always hold them back
+    let tail = Buffer.alloc(0);
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        const data = Buffer.concat([tail, chunk]);
+        const cut = Math.max(data.length - TAG_LENGTH, 0);
+        tail = data.subarray(cut);
+        callback(null, decipher.update(data.subarray(0, cut)));
+      },
+      flush(callback) {
+        try {
+          if (tail.length !== TAG_LENGTH) {
+            throw new Error('ciphertext is truncated');
+          }
+          decipher.setAuthTag(tail);
+          callback(null, decipher.final());
+        } catch (error) {
+          callback(
+            new EncryptionError('Backup failed integrity check during decryption', {
+              cause: error,
+            }),
+          );
+        }
+      },
+    });
+  }
+
+  private getKeyProvider(name?: string): KeyProvider {
+    switch (name) {
+      case this.localKeyProvider.name:
+        return this.localKeyProvider;
+      case this.kmsKeyProvider.name:
+        return this.kmsKeyProvider;
+      default:
+        throw new EncryptionError(`Unknown encryption key provider: ${name}`);
+    }
+  }
+}
+
+export { EncryptionService };
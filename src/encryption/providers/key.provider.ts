@@ -0,0 +1,12 @@
+export interface WrappedKey {
+  keyId?: string;
+  ciphertext: Buffer;
+}
+
+abstract class KeyProvider {
+  abstract readonly name: string;
+  abstract wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+  abstract unwrapKey(wrappedKey: WrappedKey): Promise<Buffer>;
+}
+
+export { KeyProvider };
@@ -0,0 +1,77 @@
+import { singleton, inject } from 'tsyringe';
+import { KMSClient, EncryptCommand, DecryptCommand } from '@aws-sdk/client-kms';
+import { z } from 'zod';
+import { KeyProvider, WrappedKey } from './key.provider';
+import { ConfigService } from '../../config/config.service';
+import { configSchema } from '../../config/config.schema';
+import { EncryptionError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+@singleton()
+class KmsKeyProvider extends KeyProvider {
+  readonly name = 'kms';
+  private readonly kmsClient: KMSClient;
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    super();
+    const region = configService.get('AWS_REGION');
+    this.logger.info(`Initializing KMS client with region: ${region}`, 'KmsKeyProvider');
+
+    this.kmsClient = new KMSClient({
+      region,
+      maxAttempts: 3,
+    });
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const keyId = this.configService.get('ENCRYPTION_KMS_KEY_ID');
+    if (!keyId) {
+      this.logger.error('KMS key ID is not configured', 'KmsKeyProvider');
+      throw new EncryptionError('KMS key ID is not configured');
+    }
+
+    try {
+      const response = await this.kmsClient.send(
+        new EncryptCommand({ KeyId: keyId, Plaintext: dataKey }),
+      );
+      if (!response.CiphertextBlob) {
+        throw new EncryptionError('KMS returned no ciphertext');
+      }
+
+      return { keyId: response.KeyId ?? keyId, ciphertext: Buffer.from(response.CiphertextBlob) };
+    } catch (error) {
+      this.logger.error('Failed to wrap data key with KMS', 'KmsKeyProvider', error, { keyId });
+      throw new EncryptionError('Failed to wrap data key with KMS', {
+        details: { keyId },
+        cause: error,
+      });
+    }
+  }
+
+  async unwrapKey(wrappedKey: WrappedKey): Promise<Buffer> {
+    try {
+      const response = await this.kmsClient.send(
+        new DecryptCommand({ KeyId: wrappedKey.keyId, CiphertextBlob: wrappedKey.ciphertext }),
+      );
+      if (!response.Plaintext) {
+        throw new EncryptionError('KMS returned no plaintext');
+      }
+
+      return Buffer.from(response.Plaintext);
+    } catch (error) {
+      this.logger.error('Failed to unwrap data key with KMS', 'KmsKeyProvider', error, {
+        keyId: wrappedKey.keyId,
+      });
+      throw new EncryptionError('Failed to unwrap data key with KMS', {
+        details: { keyId: wrappedKey.keyId },
+        cause: error,
+      });
+    }
+  }
+}
+
+export { KmsKeyProvider };
@@ -0,0 +1,103 @@
+import { singleton, inject } from 'tsyringe';
+import crypto from 'crypto';
+import fs from 'fs';
+import { z } from 'zod';
+import { KeyProvider, WrappedKey } from './key.provider';
+import { ConfigService } from '../../config/config.service';
+import { configSchema } from '../../config/config.schema';
+import { EncryptionError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Wraps data keys with a master key read from a local file. Meant for
+ * development; the file holds 32 raw bytes, 64 hex characters or base64.
+ */
+@singleton()
+class LocalKeyProvider extends KeyProvider {
+  readonly name = 'local';
+  private masterKey?: Buffer;
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    super();
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const masterKey = this.getMasterKey();
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', masterKey, iv);
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: this.fingerprint(masterKey),
+      ciphertext: Buffer.concat([iv, cipher.getAuthTag(), encrypted]),
+    };
+  }
+
+  async unwrapKey(wrappedKey: WrappedKey): Promise<Buffer> {
+    const masterKey = this.getMasterKey();
+    if (wrappedKey.keyId && wrappedKey.keyId !== this.fingerprint(masterKey)) {
+      throw new EncryptionError('Backup was encrypted with a different local master key', {
+        details: { keyId: wrappedKey.keyId },
+      });
+    }
+
+    try {
+      const iv = wrappedKey.ciphertext.subarray(0, IV_LENGTH);
+      const tag = wrappedKey.ciphertext.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+      const encrypted = wrappedKey.ciphertext.subarray(IV_LENGTH + TAG_LENGTH);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+    } catch (error) {
+      throw new EncryptionError('Failed to unwrap data key', { cause: error });
+    }
+  }
+
+  private getMasterKey(): Buffer {
+    if (this.masterKey) return this.masterKey;
+
+    const keyFile = this.configService.get('ENCRYPTION_KEY_FILE');
+    if (!keyFile) {
+      this.logger.error('Encryption key file is not configured', 'LocalKeyProvider');
+      throw new EncryptionError('Encryption key file is not configured');
+    }
+
+    let raw: Buffer;
+    try {
+      raw = fs.readFileSync(keyFile);
+    } catch (error) {
+      throw new EncryptionError(`Failed to read encryption key file: ${keyFile}`, { cause: error });
+    }
+
+    const text = raw.toString().trim();
+    const key =
+      raw.length === KEY_LENGTH
+        ? raw
+        : /^[0-9a-f]{64}$/i.test(text)
+          ? Buffer.from(text, 'hex')
+          : Buffer.from(text, 'base64');
+
+    if (key.length !== KEY_LENGTH) {
+      throw new EncryptionError(`Encryption key file must contain a ${KEY_LENGTH}-byte key`, {
+        details: { keyFile },
+      });
+    }
+
+    this.masterKey = key;
+    return key;
+  }
+
+  private fingerprint(masterKey: Buffer): string {
+    return crypto.createHash('sha256').update(masterKey).digest('hex').slice(0, 16);
+  }
+}
+
+export { LocalKeyProvider };
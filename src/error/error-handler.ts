@@ -3,10 +3,14 @@ import { APIGatewayProxyResult } from 'aws-lambda';
 import { StatusCodes } from 'http-status-codes';
 import { ApplicationError } from './application-error';
 import { Logger } from '../utils/logger/logger';
+import { RedactionService } from '../redaction/redaction.service';
 
 @singleton()
 export class ErrorHandler {
-  constructor(@inject(Logger) private readonly logger: Logger) {}
+  constructor(
+    @inject(Logger) private readonly logger: Logger,
+    @inject(RedactionService) private readonly redactionService: RedactionService
+  ) {}
 
   handleError(error: Error | ApplicationError | unknown): APIGatewayProxyResult {
     this.logger.error('Error caught by central handler', 'ErrorHandler', error);
@@ -15,7 +19,7 @@ export class ErrorHandler {
     if (error instanceof ApplicationError) {
       return {
         statusCode: error.statusCode,
-        body: JSON.stringify(error.toJSON()),
+        body: this.toBody(error),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -35,7 +39,7 @@ export class ErrorHandler {
       
       return {
         statusCode: appError.statusCode,
-        body: JSON.stringify(appError.toJSON()),
+        body: this.toBody(appError),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -52,10 +56,15 @@ export class ErrorHandler {
     
     return {
       statusCode: appError.statusCode,
-      body: JSON.stringify(appError.toJSON()),
+      body: this.toBody(appError),
       headers: {
         'Content-Type': 'application/json',
       },
     };
   }
+
+  /** Error messages and details often quote command output or connection strings */
+  private toBody(error: ApplicationError): string {
+    return JSON.stringify(this.redactionService.redactValue(error.toJSON()));
+  }
 }
\ No newline at end of file
@@ -37,8 +37,26 @@ export class NotFoundError extends ApplicationError {
   }
 }
 
+export class AuthenticationError extends ApplicationError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, StatusCodes.UNAUTHORIZED, 'UNAUTHORIZED', details);
+  }
+}
+
+export class AuthorizationError extends ApplicationError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, StatusCodes.FORBIDDEN, 'FORBIDDEN', details);
+  }
+}
+
 export class NotificationError extends ApplicationError {
   constructor(message: string, details?: ErrorDetails) {
     super(message, StatusCodes.INTERNAL_SERVER_ERROR, 'NOTIFICATION_ERROR', details);
   }
+}
+
+export class EncryptionError extends ApplicationError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, StatusCodes.INTERNAL_SERVER_ERROR, 'ENCRYPTION_ERROR', details);
+  }
 }
\ No newline at end of file
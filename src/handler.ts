@@ -1,14 +1,26 @@
-import { APIGatewayProxyEventV2, APIGatewayProxyResult, Context } from 'aws-lambda';
+import crypto from 'crypto';
+import { APIGatewayProxyResult, Context } from 'aws-lambda';
 import { container } from 'tsyringe';
-import { HandlerService } from './services/handler.service';
+import { HandlerEvent, HandlerService } from './services/handler.service';
+import { ConfigService } from './config/config.service';
+import { ErrorHandler } from './error';
+import { Logger } from './utils/logger/logger';
 
 // Simplified handler that delegates to the service
-const handler = async (
-  event?: APIGatewayProxyEventV2,
-  context?: Context,
-): Promise<APIGatewayProxyResult> => {
-  const handlerService = container.resolve(HandlerService);
-  return handlerService.processEvent(event, context);
-};
+const handler = async (event?: HandlerEvent, context?: Context): Promise<APIGatewayProxyResult> =>
+  // Every log entry of the invocation carries its request ID, to find them all in CloudWatch
+  container
+    .resolve(Logger)
+    .runWithFields({ correlationId: context?.awsRequestId ?? crypto.randomUUID() }, async () => {
+      try {
+        // Secrets are fetched on cold start and whenever the cache expires
+        await container.resolve(ConfigService).load();
+      } catch (error) {
+        return container.resolve(ErrorHandler).handleError(error);
+      }
+
+      const handlerService = container.resolve(HandlerService);
+      return handlerService.processEvent(event, context);
+    });
 
 export { handler };
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+const jobRetentionSchema = z
+  .object({
+    keepLast: z.number().int().min(0).optional().default(0),
+    keepDaily: z.number().int().min(0).optional().default(0),
+    keepWeekly: z.number().int().min(0).optional().default(0),
+    keepMonthly: z.number().int().min(0).optional().default(0),
+    dryRun: z.boolean().optional().default(false),
+  })
+  .strict();
+
+const jobSchema = z
+  .object({
+    // Becomes part of every storage key the job writes
+    name: z.string().regex(/^[\w-]+$/, 'Job names may only contain letters, digits, "_" and "-"'),
+    engine: z.enum(['mongodb', 'postgres']),
+    /** Where the connection string comes from: `env:VAR`, `ssm://<name>` or `secret://<id>[#key]` */
+    connection: z
+      .string()
+      .regex(
+        /^(env:\w+|ssm:\/\/.+|secret:\/\/.+)$/,
+        'Connection must be a reference such as env:MONGO_URI, ssm:///prod/mongo-uri or secret://prod/db',
+      ),
+    /** PostgreSQL only */
+    dumpMode: z.enum(['database', 'cluster']).optional(),
+    /** MongoDB only: snapshots for point-in-time recovery; overrides MONGO_OPLOG_ENABLED */
+    oplog: z.boolean().optional(),
+    /** Storage destination names; every destination when omitted */
+    destinations: z.array(z.string().min(1)).min(1).optional(),
+    /** Tag selecting which jobs a scheduled event runs, e.g. "hourly" */
+    schedule: z.string().min(1).optional(),
+    compress: z.boolean().optional().default(true),
+    /** Overrides the RETENTION_* settings for this job */
+    retention: jobRetentionSchema.optional(),
+    notifications: z
+      .object({
+        enabled: z.boolean().optional().default(true),
+        /** Overrides NOTIFICATION_RECIPIENTS for this job */
+        recipients: z.array(z.string().email()).min(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const jobFileSchema = z
+  .object({
+    jobs: z
+      .array(jobSchema)
+      .min(1)
+      .refine(jobs => new Set(jobs.map(job => job.name)).size === jobs.length, {
+        message: 'Job names must be unique',
+      }),
+  })
+  .strict();
+
+export type BackupJob = z.infer<typeof jobSchema>;
+export type JobFile = z.infer<typeof jobFileSchema>;
+
+export { jobSchema, jobFileSchema };
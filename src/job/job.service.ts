@@ -0,0 +1,167 @@
+import { singleton, inject } from 'tsyringe';
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { BackupJob, jobFileSchema } from './job.schema';
+import { BackupOptions } from '../backup/providers/backup.provider';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { ConfigurationError, NotFoundError } from '../error';
+import { Logger } from '../utils/logger/logger';
+import { RedactionService } from '../redaction/redaction.service';
+
+/** Which jobs an invocation runs; with none of these set, every job runs */
+export interface JobSelector {
+  job?: string;
+  jobs?: string[];
+  schedule?: string;
+  /** Sends every pending notification digest instead of running jobs */
+  digest?: boolean;
+  /** Captures the oplog of the selected jobs in oplog mode instead of taking backups */
+  oplog?: boolean;
+}
+
+/**
+ * A scheduled invocation: EventBridge rules either pass the selector as their
+ * constant input, or it arrives in the `detail` of a custom event.
+ */
+export interface ScheduledJobEvent extends JobSelector {
+  detail?: JobSelector;
+}
+
+/**
+ * Loads the backup jobs declared in JOBS_FILE, so a single deployment can back
+ * up many databases, each with its own connection, destinations and policies.
+ */
+@singleton()
+class JobService {
+  private jobs?: BackupJob[];
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(RedactionService) private readonly redactionService: RedactionService,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.configService.get('JOBS_FILE'));
+  }
+
+  getJobs(): BackupJob[] {
+    this.jobs ??= this.loadJobs();
+    return this.jobs;
+  }
+
+  getJob(name: string): BackupJob {
+    const job = this.getJobs().find(candidate => candidate.name === name);
+    if (!job) {
+      throw new NotFoundError(`Backup job not found: ${name}`, { details: { job: name } });
+    }
+    return job;
+  }
+
+  selectJobs(event?: ScheduledJobEvent): BackupJob[] {
+    const selector: JobSelector = event?.detail ?? event ?? {};
+
+    if (selector.job) return [this.getJob(selector.job)];
+    if (selector.jobs) return selector.jobs.map(name => this.getJob(name));
+    if (selector.schedule) {
+      const jobs = this.getJobs().filter(job => job.schedule === selector.schedule);
+      if (jobs.length === 0) {
+        throw new NotFoundError(`No backup jobs have schedule: ${selector.schedule}`, {
+          details: { schedule: selector.schedule },
+        });
+      }
+      return jobs;
+    }
+    return this.getJobs();
+  }
+
+  /** The selected MongoDB jobs whose snapshots are taken in oplog mode */
+  selectOplogJobs(event?: ScheduledJobEvent): BackupJob[] {
+    return this.selectJobs(event).filter(
+      job =>
+        job.engine === 'mongodb' && (job.oplog ?? this.configService.get('MONGO_OPLOG_ENABLED')),
+    );
+  }
+
+  async toBackupOptions(job: BackupJob): Promise<BackupOptions> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return {
+      job: job.name,
+      name: `${job.name}-${timestamp}`,
+      timestamp,
+      sourceUri: await this.resolveSecretConnection(job),
+      dumpMode: job.dumpMode,
+      oplog: job.oplog,
+      destinations: job.destinations,
+      compress: job.compress,
+    };
+  }
+
+  /** Every job's connection string is a secret, whichever way it was configured */
+  private async resolveSecretConnection(job: BackupJob): Promise<string> {
+    const connection = await this.resolveConnection(job);
+    this.redactionService.addSecret(connection);
+    return connection;
+  }
+
+  private async resolveConnection(job: BackupJob): Promise<string> {
+    if (!job.connection.startsWith('env:')) {
+      // Secret stores hold connection strings as they are, without base64
+      return this.configService.resolveReference(job.connection);
+    }
+
+    // From the same sources as MONGO_URI, so base64 encoded only where it would be too
+    const variable = job.connection.slice('env:'.length);
+    const connection = await this.configService.lookup(variable);
+    if (!connection) {
+      throw new ConfigurationError(
+        `Connection for job ${job.name} is not configured: ${variable} is not set`,
+        { details: { job: job.name, connection: job.connection } },
+      );
+    }
+    return connection;
+  }
+
+  private loadJobs(): BackupJob[] {
+    const jobsFile = this.configService.get('JOBS_FILE');
+    if (!jobsFile) {
+      throw new ConfigurationError('Jobs file is not configured');
+    }
+
+    let parsed: unknown;
+    try {
+      const contents = fs.readFileSync(jobsFile, 'utf8');
+      parsed = ['.yaml', '.yml'].includes(path.extname(jobsFile).toLowerCase())
+        ? yaml.load(contents)
+        : JSON.parse(contents);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to read jobs file ${jobsFile}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+
+    const result = jobFileSchema.safeParse(parsed);
+    if (!result.success) {
+      // One line per problem, so a broken file can be fixed in a single pass
+      const problems = result.error.issues.map(
+        issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`,
+      );
+      throw new ConfigurationError(`Invalid jobs file ${jobsFile}:\n${problems.join('\n')}`, {
+        details: { problems },
+      });
+    }
+
+    this.logger.info('Backup jobs loaded', 'JobService', {
+      file: jobsFile,
+      jobs: result.data.jobs.map(job => job.name),
+    });
+    return result.data.jobs;
+  }
+}
+
+export { JobService };
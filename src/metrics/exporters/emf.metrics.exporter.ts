@@ -0,0 +1,42 @@
+import { MetricsExporter, MetricsRecord } from './metrics.exporter';
+
+/**
+ * Writes each run as one log line in CloudWatch Embedded Metric Format, which
+ * CloudWatch Logs turns into metrics without any API calls. Like JSON log
+ * lines, it goes straight to stdout so the Lambda runtime doesn't prefix it.
+ */
+class EmfMetricsExporter extends MetricsExporter {
+  readonly name = 'emf';
+
+  constructor(private readonly namespace: string) {
+    super();
+  }
+
+  async export(record: MetricsRecord): Promise<void> {
+    const { operation, job, engine } = record.dimensions;
+    const line = {
+      _aws: {
+        Timestamp: record.timestamp.getTime(),
+        CloudWatchMetrics: [
+          {
+            Namespace: this.namespace,
+            // Per job and engine, and rolled up per engine for deployments with many jobs
+            Dimensions: [
+              ['Operation', 'Job', 'Engine'],
+              ['Operation', 'Engine'],
+            ],
+            Metrics: record.metrics.map(metric => ({ Name: metric.name, Unit: metric.unit })),
+          },
+        ],
+      },
+      ...record.properties,
+      Operation: operation,
+      Job: job,
+      Engine: engine,
+      ...Object.fromEntries(record.metrics.map(metric => [metric.name, metric.value])),
+    };
+    process.stdout.write(`${JSON.stringify(line)}\n`);
+  }
+}
+
+export { EmfMetricsExporter };
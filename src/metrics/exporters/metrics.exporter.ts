@@ -0,0 +1,36 @@
+export type MetricOperation = 'backup' | 'restore' | 'verify' | 'oplog';
+
+/** CloudWatch unit names; exporters for other systems convert from these */
+export type MetricUnit = 'Milliseconds' | 'Bytes' | 'Count';
+
+export interface Metric {
+  name: string;
+  unit: MetricUnit;
+  value: number;
+  /** Added up across runs, such as failures, rather than describing the latest run */
+  counter?: boolean;
+}
+
+export interface MetricDimensions {
+  operation: MetricOperation;
+  /** `default` for runs outside a backup job */
+  job: string;
+  engine: string;
+}
+
+/** Everything measured during one backup, restore or verification */
+export interface MetricsRecord {
+  timestamp: Date;
+  dimensions: MetricDimensions;
+  metrics: Metric[];
+  /** Context to find the run's log entries by, such as the correlation ID; never a dimension */
+  properties: Record<string, unknown>;
+}
+
+/** Where metrics are published; each exporter decides its own format */
+abstract class MetricsExporter {
+  abstract readonly name: string;
+  abstract export(record: MetricsRecord): Promise<void>;
+}
+
+export { MetricsExporter };
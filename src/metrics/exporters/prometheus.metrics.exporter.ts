@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { Metric, MetricsExporter, MetricsRecord } from './metrics.exporter';
+
+type SeriesType = 'gauge' | 'counter';
+
+interface Series {
+  type: SeriesType;
+  /** Keyed by the rendered label set */
+  values: Map<string, number>;
+}
+
+const SERIES_LINE = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(\{.*\})?\s+(\S+)$/;
+const TYPE_LINE = /^# TYPE (\S+) (gauge|counter)$/;
+
+/**
+ * Writes metrics in the Prometheus text format to a file for node_exporter's
+ * textfile collector, for runs outside Lambda. Each run updates the series for
+ * its job and engine and keeps the others, so the file describes the latest
+ * run of every job; counters carry on from the values already in the file.
+ * The file is replaced atomically, so the collector never reads half of it.
+ */
+class PrometheusMetricsExporter extends MetricsExporter {
+  readonly name = 'prometheus';
+  private readonly prefix: string;
+
+  constructor(
+    private readonly filePath: string,
+    namespace: string,
+  ) {
+    super();
+    this.prefix = namespace.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  }
+
+  async export(record: MetricsRecord): Promise<void> {
+    const series = this.read();
+    const { operation, job, engine } = record.dimensions;
+    const labels = `{operation="${this.escape(operation)}",job="${this.escape(job)}",engine="${this.escape(engine)}"}`;
+    const timestamp = record.timestamp.getTime() / 1000;
+
+    for (const metric of record.metrics) {
+      this.update(
+        series,
+        this.seriesName(metric),
+        metric.counter ? 'counter' : 'gauge',
+        labels,
+        this.convert(metric),
+      );
+    }
+    this.update(series, `${this.prefix}_last_run_timestamp_seconds`, 'gauge', labels, timestamp);
+    if (record.metrics.some(metric => metric.name === 'Success' && metric.value > 0)) {
+      this.update(
+        series,
+        `${this.prefix}_last_success_timestamp_seconds`,
+        'gauge',
+        labels,
+        timestamp,
+      );
+    }
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporaryPath, this.render(series));
+    await fs.promises.rename(temporaryPath, this.filePath);
+  }
+
+  private update(
+    series: Map<string, Series>,
+    name: string,
+    type: SeriesType,
+    labels: string,
+    value: number,
+  ): void {
+    const existing = series.get(name) ?? { type, values: new Map<string, number>() };
+    const previous = type === 'counter' ? (existing.values.get(labels) ?? 0) : 0;
+    existing.values.set(labels, previous + value);
+    series.set(name, existing);
+  }
+
+  /** The series already in the file; an unreadable file starts afresh */
+  private read(): Map<string, Series> {
+    const series = new Map<string, Series>();
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf8');
+    } catch {
+      return series;
+    }
+
+    for (const line of content.split('\n')) {
+      const type = TYPE_LINE.exec(line);
+      if (type) {
+        series.set(type[1], { type: type[2] as SeriesType, values: new Map() });
+        continue;
+      }
+      const sample = SERIES_LINE.exec(line);
+      const value = sample ? Number(sample[3]) : NaN;
+      if (sample && !Number.isNaN(value)) {
+        series.get(sample[1])?.values.set(sample[2] ?? '', value);
+      }
+    }
+    return series;
+  }
+
+  private render(series: Map<string, Series>): string {
+    const lines: string[] = [];
+    for (const [name, { type, values }] of [...series].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`# TYPE ${name} ${type}`);
+      for (const [labels, value] of values) {
+        lines.push(`${name}${labels} ${value}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /** `DumpDuration` in milliseconds becomes `<prefix>_dump_duration_seconds`, as Prometheus expects base units */
+  private seriesName(metric: Metric): string {
+    const name = `${this.prefix}_${this.snakeCase(metric.name)}`;
+    if (metric.counter) return `${name}_total`;
+    if (metric.unit === 'Milliseconds') return `${name}_seconds`;
+    if (metric.unit === 'Bytes') return `${name}_bytes`;
+    return name;
+  }
+
+  private convert(metric: Metric): number {
+    return metric.unit === 'Milliseconds' ? metric.value / 1000 : metric.value;
+  }
+
+  private snakeCase(value: string): string {
+    return value
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .toLowerCase();
+  }
+
+  private escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+}
+
+export { PrometheusMetricsExporter };
@@ -0,0 +1,138 @@
+import { singleton, inject } from 'tsyringe';
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import {
+  Metric,
+  MetricDimensions,
+  MetricOperation,
+  MetricsExporter,
+  MetricsRecord,
+  MetricUnit,
+} from './exporters/metrics.exporter';
+import { EmfMetricsExporter } from './exporters/emf.metrics.exporter';
+import { PrometheusMetricsExporter } from './exporters/prometheus.metrics.exporter';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { Logger } from '../utils/logger/logger';
+
+/** Stages of a streamed backup or oplog capture; they overlap, so each is timed from the start */
+export type MetricPhase = 'dump' | 'compress' | 'upload';
+
+/** The run being measured, across every await inside it */
+const scope = new AsyncLocalStorage<Map<string, Metric>>();
+
+/**
+ * Measures backups, restores and verifications: their duration and outcome,
+ * plus whatever the code running inside records, such as phase durations,
+ * archive size and retries. Each run is published once it ends, by every
+ * configured exporter.
+ */
+@singleton()
+class MetricsService {
+  private exporters?: MetricsExporter[];
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('METRICS_ENABLED');
+  }
+
+  /**
+   * Runs `fn` as one measured run. A result `succeeded` rejects counts as a
+   * failure, as does an error, which is rethrown once the metrics are out.
+   */
+  async measure<T>(
+    operation: MetricOperation,
+    dimensions: { job?: string; engine: string },
+    fn: () => Promise<T>,
+    succeeded: (result: T) => boolean,
+  ): Promise<T> {
+    if (!this.isEnabled()) return fn();
+
+    const metrics = new Map<string, Metric>();
+    const startedAt = Date.now();
+    let success = false;
+    try {
+      const result = await scope.run(metrics, fn);
+      success = succeeded(result);
+      return result;
+    } finally {
+      this.set(metrics, 'Duration', Date.now() - startedAt, 'Milliseconds');
+      this.set(metrics, 'Success', success ? 1 : 0, 'Count', true);
+      this.set(metrics, 'Failure', success ? 0 : 1, 'Count', true);
+      if (!metrics.has('Retries')) this.set(metrics, 'Retries', 0, 'Count', true);
+      await this.publish({
+        timestamp: new Date(startedAt),
+        dimensions: { operation, job: dimensions.job ?? 'default', engine: dimensions.engine },
+        metrics: [...metrics.values()],
+        properties: this.logger.getFields(),
+      });
+    }
+  }
+
+  recordPhase(phase: MetricPhase, durationMs: number): void {
+    this.record(`${phase[0].toUpperCase()}${phase.slice(1)}Duration`, durationMs, 'Milliseconds');
+  }
+
+  /** Sets a value of the current run; outside a run it does nothing */
+  record(name: string, value: number, unit: MetricUnit): void {
+    const metrics = scope.getStore();
+    if (metrics) this.set(metrics, name, value, unit);
+  }
+
+  /** Counts retries of the current run, e.g. of S3 requests; outside a run it does nothing */
+  addRetries(count: number): void {
+    const metrics = scope.getStore();
+    if (!metrics || count <= 0) return;
+    this.set(metrics, 'Retries', (metrics.get('Retries')?.value ?? 0) + count, 'Count', true);
+  }
+
+  private set(
+    metrics: Map<string, Metric>,
+    name: string,
+    value: number,
+    unit: MetricUnit,
+    counter?: boolean,
+  ): void {
+    metrics.set(name, { name, unit, value, counter });
+  }
+
+  private async publish(record: MetricsRecord): Promise<void> {
+    this.exporters ??= this.createExporters();
+    await Promise.all(
+      this.exporters.map(async exporter => {
+        try {
+          await exporter.export(record);
+        } catch (error) {
+          // Metrics must never be why an operation fails
+          this.logger.error('Failed to export metrics', 'MetricsService', error, {
+            exporter: exporter.name,
+          });
+        }
+      }),
+    );
+  }
+
+  private createExporters(): MetricsExporter[] {
+    const namespace = this.configService.get('METRICS_NAMESPACE');
+    const prometheusFile = this.configService.get('METRICS_PROMETHEUS_FILE');
+    return this.configService.get('METRICS_EXPORTERS').flatMap((name): MetricsExporter[] => {
+      if (name === 'emf') return [new EmfMetricsExporter(namespace)];
+      if (!prometheusFile) {
+        this.logger.warn(
+          'METRICS_EXPORTERS includes prometheus, but METRICS_PROMETHEUS_FILE is not set; skipping it',
+          'MetricsService',
+        );
+        return [];
+      }
+      return [new PrometheusMetricsExporter(prometheusFile, namespace)];
+    });
+  }
+}
+
+export type { MetricDimensions, MetricOperation, MetricsRecord };
+export { MetricsService };
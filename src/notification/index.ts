@@ -1,3 +1,8 @@
 export * from './notification.service';
 export * from './providers/notification.provider';
-export * from './providers/ses.notification.provider';
\ No newline at end of file
+export * from './providers/ses.notification.provider';
+export * from './providers/smtp.notification.provider';
+export * from './providers/webhook.notification.provider';
+export * from './providers/slack.notification.provider';
+export * from './templates/template.service';
+export * from './notification.routes';
\ No newline at end of file
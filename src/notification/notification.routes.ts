@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+const notificationChannels = ['email', 'smtp', 'webhook', 'slack'] as const;
+
+const notificationEventTypes = [
+  'backup.succeeded',
+  'backup.failed',
+  'backup.digest',
+  'restore.succeeded',
+  'restore.failed',
+  'verification.succeeded',
+  'verification.failed',
+  'retention.failed',
+  'oplog.gap',
+] as const;
+
+/** Events the daily digest can collect; failures always go out on their own */
+const digestibleEventTypes = [
+  'backup.succeeded',
+  'restore.succeeded',
+  'verification.succeeded',
+] as const;
+
+const notificationDeliveries = ['immediate', 'digest', 'mute'] as const;
+
+const notificationRouteSchema = z
+  .object({
+    /** Every condition set must match; a route without conditions matches every event */
+    events: z.array(z.enum(notificationEventTypes)).min(1).optional(),
+    severity: z.enum(['info', 'error']).optional(),
+    jobs: z.array(z.string().min(1)).min(1).optional(),
+    /** NOTIFICATION_CHANNELS when omitted */
+    channels: z.array(z.enum(notificationChannels)).min(1).optional(),
+    /** Replaces both NOTIFICATION_RECIPIENTS and a job's own recipients */
+    recipients: z.array(z.string().email()).min(1).optional(),
+    /** `digest` batches events into one summary a day, `mute` drops them */
+    delivery: z.enum(notificationDeliveries).optional().default('immediate'),
+  })
+  .strict()
+  .refine(
+    route =>
+      route.delivery !== 'digest' ||
+      route.events?.every(type => (digestibleEventTypes as readonly string[]).includes(type)),
+    {
+      message: `Digest routes must list their events, which may only be ${digestibleEventTypes.join(', ')}`,
+    },
+  );
+
+const notificationRoutesSchema = z.array(notificationRouteSchema);
+
+export type NotificationChannel = (typeof notificationChannels)[number];
+export type NotificationEventType = (typeof notificationEventTypes)[number];
+export type NotificationDelivery = (typeof notificationDeliveries)[number];
+export type NotificationRoute = z.infer<typeof notificationRouteSchema>;
+
+export {
+  notificationChannels,
+  notificationEventTypes,
+  digestibleEventTypes,
+  notificationDeliveries,
+  notificationRouteSchema,
+  notificationRoutesSchema,
+};
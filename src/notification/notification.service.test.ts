@@ -0,0 +1,85 @@
+import 'reflect-metadata';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NotificationService } from './notification.service';
+import { NotificationStateStore } from './notification.state';
+import { SESNotificationProvider } from './providers/ses.notification.provider';
+import { SlackNotificationProvider } from './providers/slack.notification.provider';
+import { SmtpNotificationProvider } from './providers/smtp.notification.provider';
+import { WebhookNotificationProvider } from './providers/webhook.notification.provider';
+import { NotificationTemplateService } from './templates/template.service';
+import { ConfigService } from '../config/config.service';
+import { StaticConfigProvider } from '../config/providers/static.config.provider';
+import { MetricsService } from '../metrics/metrics.service';
+import { RedactionService } from '../redaction/redaction.service';
+import { StorageService } from '../storage/storage.service';
+import { Logger } from '../utils/logger/logger';
+
+describe('NotificationService', () => {
+  let rootDir: string;
+  let stateStore: NotificationStateStore;
+  let notificationService: NotificationService;
+
+  before(async () => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backupnimbus-notification-'));
+    const redactionService = new RedactionService();
+    const configService = new ConfigService(
+      [
+        new StaticConfigProvider({
+          LOG_LEVEL: 'ERROR',
+          STORAGE_PROVIDER: 'filesystem',
+          STORAGE_ROOT_DIR: rootDir,
+          NOTIFICATIONS_ENABLED: 'true',
+          NOTIFICATION_RECIPIENTS: 'team@example.com',
+          NOTIFICATION_SUCCESS_DELIVERY: 'digest',
+        }),
+      ],
+      redactionService,
+    );
+    await configService.load();
+    const logger = new Logger(configService, redactionService);
+    stateStore = new NotificationStateStore(
+      new StorageService(configService, new MetricsService(configService, logger), logger),
+      logger,
+    );
+    notificationService = new NotificationService(
+      new SESNotificationProvider(configService, logger),
+      new SmtpNotificationProvider(configService, logger),
+      new WebhookNotificationProvider(configService, logger),
+      new SlackNotificationProvider(configService, logger),
+      new NotificationTemplateService(configService, logger),
+      stateStore,
+      redactionService,
+      logger,
+      configService,
+    );
+  });
+
+  after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  it('digests success events separately for jobs with their own recipients', async () => {
+    const timestamp = new Date().toISOString();
+    await notificationService.sendBackupSuccessNotification({
+      backupId: 'backups/orders/nightly/nightly.archive.gz',
+      timestamp,
+      job: 'orders',
+      recipients: ['orders-oncall@example.com'],
+    });
+    await notificationService.sendBackupSuccessNotification({
+      backupId: 'backups/nightly/nightly.archive.gz',
+      timestamp,
+    });
+
+    const digests = Object.values(await stateStore.getDueDigests(new Date(), true));
+    assert.deepEqual(
+      digests.map(digest => [digest.recipients, digest.entries.map(entry => entry.job)]),
+      [
+        [['orders-oncall@example.com'], ['orders']],
+        [['team@example.com'], [undefined]],
+      ],
+    );
+  });
+});
@@ -1,39 +1,133 @@
 import { singleton, inject } from 'tsyringe';
+import crypto from 'crypto';
 import { SESNotificationProvider } from './providers/ses.notification.provider';
-import { NotificationOptions, NotificationResult } from './providers/notification.provider';
+import { SmtpNotificationProvider } from './providers/smtp.notification.provider';
+import { WebhookNotificationProvider } from './providers/webhook.notification.provider';
+import { SlackNotificationProvider } from './providers/slack.notification.provider';
+import { NotificationTemplateService, RenderedNotification } from './templates/template.service';
+import { NotificationStateStore } from './notification.state';
+import { NotificationChannel, NotificationDelivery, digestibleEventTypes } from './notification.routes';
+import {
+  NotificationAttachment,
+  NotificationEvent,
+  NotificationOptions,
+  NotificationProvider,
+  NotificationResult,
+} from './providers/notification.provider';
 import { Logger } from '../utils/logger/logger';
+import { RedactionService } from '../redaction/redaction.service';
 import { ConfigService } from '../config/config.service';
+import { RetentionResult } from '../retention/retention.service';
+import { BackupManifest, RestoreResult, VerificationReport } from '../backup/providers/backup.provider';
+import { DestinationResult } from '../storage/storage.destination';
+
+/** Only the end of a long stderr is attached; the cause is almost always there */
+const MAX_STDERR_BYTES = 64 * 1024;
+
+/** Where an event goes, from the first matching NOTIFICATION_ROUTES entry */
+interface ResolvedRoute {
+  channels: NotificationChannel[];
+  recipients?: string[];
+  delivery: NotificationDelivery;
+}
 
 @singleton()
 class NotificationService {
   constructor(
-    @inject(SESNotificationProvider) private readonly notificationProvider: SESNotificationProvider,
+    @inject(SESNotificationProvider) private readonly sesProvider: SESNotificationProvider,
+    @inject(SmtpNotificationProvider) private readonly smtpProvider: SmtpNotificationProvider,
+    @inject(WebhookNotificationProvider) private readonly webhookProvider: WebhookNotificationProvider,
+    @inject(SlackNotificationProvider) private readonly slackProvider: SlackNotificationProvider,
+    @inject(NotificationTemplateService) private readonly templateService: NotificationTemplateService,
+    @inject(NotificationStateStore) private readonly stateStore: NotificationStateStore,
+    @inject(RedactionService) private readonly redactionService: RedactionService,
     @inject(Logger) private readonly logger: Logger,
     @inject(ConfigService) private readonly configService: ConfigService
   ) {}
   
   isEnabled(): boolean {
-    const notificationsEnabled = this.configService.get('NOTIFICATIONS_ENABLED');
-    return notificationsEnabled !== 'false';
+    return this.configService.get('NOTIFICATIONS_ENABLED');
   }
 
-  async sendNotification(options: NotificationOptions): Promise<NotificationResult> {
+  async sendNotification(
+    notification: NotificationOptions,
+    channels: NotificationChannel[] = this.configService.get('NOTIFICATION_CHANNELS')
+  ): Promise<NotificationResult> {
     // Check if notifications are enabled
     if (!this.isEnabled()) {
       this.logger.info('Notifications are disabled, skipping', 'NotificationService');
-      return {
-        success: true,
-        messageId: 'notification-disabled',
-        timestamp: new Date().toISOString()
-      };
+      return this.skipped('notification-disabled');
     }
     
+    const options = this.redact(notification);
+    const providers = this.getProviders(channels);
     this.logger.info('Sending notification', 'NotificationService', { 
       subject: options.subject,
-      recipientCount: options.recipients.length 
+      recipientCount: options.recipients.length,
+      channels: providers.map(provider => provider.name)
     });
     
-    return this.notificationProvider.send(options);
+    // Providers report failures in their result, so one channel failing doesn't stop the others
+    const results = await Promise.all(
+      providers.map(async provider => ({ ...(await provider.send(options)), channel: provider.name }))
+    );
+    const failed = results.filter(result => !result.success);
+    return {
+      success: failed.length === 0,
+      messageId: results.find(result => result.messageId)?.messageId,
+      error: failed.length > 0
+        ? failed.map(result => `${result.channel}: ${result.error ?? 'unknown error'}`).join('; ')
+        : undefined,
+      timestamp: new Date().toISOString(),
+      channels: results
+    };
+  }
+
+  /**
+   * Error messages in a notification often quote command output, and the
+   * notification leaves for mailboxes and chat rooms we don't control
+   */
+  private redact(options: NotificationOptions): NotificationOptions {
+    return {
+      ...options,
+      subject: this.redactionService.redact(options.subject),
+      message: this.redactionService.redact(options.message),
+      html: options.html && this.redactionService.redact(options.html),
+      attachments: options.attachments?.map(attachment => this.redactAttachment(attachment)),
+      event: options.event && this.redactionService.redactValue(options.event)
+    };
+  }
+
+  /** Text attachments are scrubbed; archives and images are passed through untouched */
+  private redactAttachment(attachment: NotificationAttachment): NotificationAttachment {
+    if (typeof attachment.content === 'string') {
+      return { ...attachment, content: this.redactionService.redact(attachment.content) };
+    }
+    if (!/^(text\/|application\/(json|x-ndjson))/.test(attachment.contentType ?? '')) {
+      return attachment;
+    }
+    return {
+      ...attachment,
+      content: Buffer.from(this.redactionService.redact(attachment.content.toString('utf8')), 'utf8')
+    };
+  }
+
+  /** A notification deliberately not sent; nothing failed */
+  private skipped(messageId: string): NotificationResult {
+    return { success: true, messageId, timestamp: new Date().toISOString() };
+  }
+
+  /** The providers for the channels, all sent to at once */
+  private getProviders(channels: NotificationChannel[]): NotificationProvider[] {
+    const providers: NotificationProvider[] = [
+      this.sesProvider,
+      this.smtpProvider,
+      this.webhookProvider,
+      this.slackProvider
+    ];
+    return channels
+      .map(channel => providers.find(provider => provider.name === channel))
+      .filter((provider): provider is NotificationProvider => provider !== undefined);
   }
   
   async sendBackupSuccessNotification(backupDetails: {
@@ -41,187 +135,331 @@ class NotificationService {
     timestamp: string;
     size?: number;
     location?: string;
+    destinations?: DestinationResult[];
+    retention?: RetentionResult;
+    job?: string;
+    /** Attached as manifest.json */
+    manifest?: BackupManifest;
+    /** Overrides the configured recipients */
+    recipients?: string[];
   }): Promise<NotificationResult> {
     this.logger.info('Sending backup success notification', 'NotificationService', backupDetails);
     
-    const recipients = this.getNotificationRecipients();
-    const subject = `Backup Successful: ${backupDetails.backupId}`;
-    const message = this.buildBackupSuccessMessage(backupDetails);
-    const html = this.buildBackupSuccessHtml(backupDetails);
-    
-    return this.sendNotification({
-      subject,
-      message,
-      html,
-      recipients
+    const { recipients = this.getNotificationRecipients(), manifest, ...data } = backupDetails;
+    return this.sendEvent({ type: 'backup.succeeded', severity: 'info', job: data.job, data }, {
+      recipients,
+      attachments: manifest
+        ? [{
+          filename: 'manifest.json',
+          content: JSON.stringify(manifest, null, 2),
+          contentType: 'application/json'
+        }]
+        : undefined
     });
   }
   
-  async sendBackupFailureNotification(error: string, details?: Record<string, unknown>): Promise<NotificationResult> {
+  async sendBackupFailureNotification(
+    error: string,
+    details?: Record<string, unknown>,
+    recipients = this.getNotificationRecipients(),
+    /** Output of the failed dump tool, attached as stderr.txt */
+    stderr?: string,
+  ): Promise<NotificationResult> {
     this.logger.info('Sending backup failure notification', 'NotificationService', { error, details });
     
-    const recipients = this.getNotificationRecipients();
-    const subject = 'Backup Failed';
-    const message = this.buildBackupFailureMessage(error, details);
-    const html = this.buildBackupFailureHtml(error, details);
-    
-    return this.sendNotification({
-      subject,
-      message,
-      html,
-      recipients
+    const event: NotificationEvent = {
+      type: 'backup.failed',
+      severity: 'error',
+      job: typeof details?.job === 'string' ? details.job : undefined,
+      data: { error, ...details }
+    };
+    return this.sendEvent(event, {
+      recipients,
+      attachments: this.buildFailureAttachments(stderr),
+      // The templates show the details as a block of their own
+      context: { error, details, timestamp: new Date().toISOString() }
     });
   }
-  
-  private getNotificationRecipients(): string[] {
-    const recipientsString = this.configService.get('NOTIFICATION_RECIPIENTS');
-    if (!recipientsString) {
-      this.logger.warn('No notification recipients configured, using default email', 'NotificationService');
-      return ['admin@example.com']; // Default fallback
+
+  async sendRestoreNotification(
+    result: RestoreResult,
+    recipients = this.getNotificationRecipients()
+  ): Promise<NotificationResult> {
+    this.logger.info('Sending restore notification', 'NotificationService', {
+      backupId: result.backupId,
+      success: result.success
+    });
+
+    // Per-collection counts are left out; a restore can touch thousands of collections
+    const { collections: _collections, ...data } = result;
+    return this.sendEvent({
+      type: result.success ? 'restore.succeeded' : 'restore.failed',
+      severity: result.success ? 'info' : 'error',
+      data
+    }, { recipients });
+  }
+
+  /** Evidence for whoever is on call: the tool's stderr and the log leading up to the failure */
+  private buildFailureAttachments(stderr?: string): NotificationAttachment[] {
+    const attachments: NotificationAttachment[] = [];
+    if (stderr) {
+      const bytes = Buffer.from(stderr);
+      attachments.push({
+        filename: 'stderr.txt',
+        content: bytes.length > MAX_STDERR_BYTES
+          ? Buffer.concat([Buffer.from('[earlier output truncated]\n'), bytes.subarray(-MAX_STDERR_BYTES)])
+          : bytes,
+        contentType: 'text/plain; charset=UTF-8'
+      });
     }
-    
-    try {
-      // Decode base64
-      const decodedRecipients = Buffer.from(recipientsString, 'base64').toString();
-      // Split by comma
-      return decodedRecipients.split(',').map(email => email.trim());
-    } catch (error) {
-      this.logger.error('Failed to parse notification recipients', 'NotificationService', error);
-      return ['admin@example.com']; // Default fallback
+
+    const entries = this.logger.getRecentEntries();
+    if (entries.length > 0) {
+      attachments.push({
+        filename: 'log-excerpt.txt',
+        content: entries
+          .map(entry => [
+            `[${entry.timestamp}] [${entry.level}]${entry.context ? ` [${entry.context}]` : ''} ${entry.message}`,
+            ...(entry.data ? [JSON.stringify(entry.data)] : [])
+          ].join(' '))
+          .join('\n'),
+        contentType: 'text/plain; charset=UTF-8'
+      });
     }
+    return attachments;
   }
   
-  private buildBackupSuccessMessage(backupDetails: {
-    backupId: string;
-    timestamp: string;
-    size?: number;
-    location?: string;
-  }): string {
-    return `
-Backup completed successfully
+  async sendVerificationNotification(report: VerificationReport): Promise<NotificationResult> {
+    this.logger.info('Sending verification notification', 'NotificationService', {
+      backupId: report.backupId,
+      valid: report.valid
+    });
 
-Backup ID: ${backupDetails.backupId}
-Timestamp: ${backupDetails.timestamp}
-Size: ${backupDetails.size ? `${(backupDetails.size / (1024 * 1024)).toFixed(2)} MB` : 'Unknown'}
-Location: ${backupDetails.location ?? 'Unknown'}
+    return this.sendEvent({
+      type: report.valid ? 'verification.succeeded' : 'verification.failed',
+      severity: report.valid ? 'info' : 'error',
+      data: {
+        backupId: report.backupId,
+        valid: report.valid,
+        timestamp: report.timestamp,
+        sha256: report.sha256,
+        checks: report.checks
+      }
+    }, { recipients: this.getNotificationRecipients() });
+  }
+
+  async sendRetentionFailureNotification(
+    failure: {
+      /** Set when the policy ran but some backups could not be deleted */
+      retention?: RetentionResult;
+      /** Set when the policy could not be applied at all */
+      error?: string;
+      job?: string;
+    },
+    recipients = this.getNotificationRecipients()
+  ): Promise<NotificationResult> {
+    this.logger.info('Sending retention failure notification', 'NotificationService', failure);
 
-This is an automated message from BackupNimbus.
-    `.trim();
+    return this.sendEvent(
+      { type: 'retention.failed', severity: 'error', job: failure.job, data: failure },
+      { recipients }
+    );
   }
-  
-  private buildBackupSuccessHtml(backupDetails: {
-    backupId: string;
-    timestamp: string;
-    size?: number;
-    location?: string;
-  }): string {
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background-color: #4CAF50; color: white; padding: 10px; text-align: center; }
-    .content { padding: 20px; border: 1px solid #ddd; }
-    .footer { font-size: 12px; color: #777; margin-top: 20px; text-align: center; }
-    table { width: 100%; border-collapse: collapse; }
-    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
-    th { background-color: #f2f2f2; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h2>Backup Completed Successfully</h2>
-    </div>
-    <div class="content">
-      <p>The MongoDB backup has been successfully completed and stored in AWS S3.</p>
-      
-      <table>
-        <tr>
-          <th>Property</th>
-          <th>Value</th>
-        </tr>
-        <tr>
-          <td>Backup ID</td>
-          <td>${backupDetails.backupId}</td>
-        </tr>
-        <tr>
-          <td>Timestamp</td>
-          <td>${backupDetails.timestamp}</td>
-        </tr>
-        <tr>
-          <td>Size</td>
-          <td>${backupDetails.size ? `${(backupDetails.size / (1024 * 1024)).toFixed(2)} MB` : 'Unknown'}</td>
-        </tr>
-        <tr>
-          <td>Location</td>
-          <td>${backupDetails.location ?? 'Unknown'}</td>
-        </tr>
-      </table>
-    </div>
-    <div class="footer">
-      <p>This is an automated message from BackupNimbus. Please do not reply to this email.</p>
-    </div>
-  </div>
-</body>
-</html>
-    `.trim();
+
+  async sendOplogGapNotification(
+    gap: {
+      backupId: string;
+      /** The last captured entry; those written after it are lost */
+      since: string;
+      sequence: number;
+      job?: string;
+    },
+    recipients = this.getNotificationRecipients()
+  ): Promise<NotificationResult> {
+    this.logger.info('Sending oplog gap notification', 'NotificationService', gap);
+
+    return this.sendEvent(
+      { type: 'oplog.gap', severity: 'error', job: gap.job, data: gap },
+      { recipients }
+    );
   }
-  
-  private buildBackupFailureMessage(error: string, details?: Record<string, unknown>): string {
-    return `
-Backup Failed
 
-Error: ${error}
-Timestamp: ${new Date().toISOString()}
-${details ? `Details: ${JSON.stringify(details, null, 2)}` : ''}
+  /**
+   * Sends everything collected for the daily digest since an earlier day, or
+   * all of it with `force`. A digest that fails to send is kept for next time.
+   */
+  async sendDigests(force = false): Promise<NotificationResult[]> {
+    if (!this.isEnabled()) return [];
+
+    const now = new Date();
+    const results: NotificationResult[] = [];
+    for (const [key, digest] of Object.entries(await this.stateStore.getDueDigests(now, force))) {
+      this.logger.info('Sending notification digest', 'NotificationService', {
+        entries: digest.entries.length,
+        since: digest.since,
+        channels: digest.channels
+      });
 
-This is an automated message from BackupNimbus.
-    `.trim();
+      const result = await this.deliver(
+        {
+          type: 'backup.digest',
+          severity: 'info',
+          data: {
+            since: digest.since,
+            until: now.toISOString(),
+            count: digest.entries.length + digest.dropped,
+            entries: digest.entries,
+            dropped: digest.dropped
+          }
+        },
+        { channels: digest.channels, recipients: digest.recipients ?? this.getNotificationRecipients() }
+      );
+      if (result.success) {
+        await this.stateStore.clearDigest(key, now);
+      }
+      results.push(result);
+    }
+    return results;
   }
-  
-  private buildBackupFailureHtml(error: string, details?: Record<string, unknown>): string {
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background-color: #f44336; color: white; padding: 10px; text-align: center; }
-    .content { padding: 20px; border: 1px solid #ddd; }
-    .footer { font-size: 12px; color: #777; margin-top: 20px; text-align: center; }
-    .error { color: #f44336; font-weight: bold; }
-    pre { background-color: #f5f5f5; padding: 10px; overflow: auto; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h2>Backup Failed</h2>
-    </div>
-    <div class="content">
-      <p>The MongoDB backup operation has failed.</p>
-      
-      <p><span class="error">Error:</span> ${error}</p>
-      <p><strong>Timestamp:</strong> ${new Date().toISOString()}</p>
-      
-      ${details ? `
-      <p><strong>Details:</strong></p>
-      <pre>${JSON.stringify(details, null, 2)}</pre>
-      ` : ''}
-      
-      <p>Please check the logs for more information and take appropriate action.</p>
-    </div>
-    <div class="footer">
-      <p>This is an automated message from BackupNimbus. Please do not reply to this email.</p>
-    </div>
-  </div>
-</body>
-</html>
-    `.trim();
+
+  /** Routes the event, then holds it back, batches it or sends it right away */
+  private async sendEvent(
+    event: NotificationEvent,
+    options: {
+      recipients: string[];
+      attachments?: NotificationAttachment[];
+      /** Template data beyond the event's own */
+      context?: Record<string, unknown>;
+    }
+  ): Promise<NotificationResult> {
+    if (!this.isEnabled()) {
+      this.logger.info('Notifications are disabled, skipping', 'NotificationService');
+      return this.skipped('notification-disabled');
+    }
+
+    const windowMs = this.configService.get('NOTIFICATION_THROTTLE_MINUTES') * 60 * 1000;
+    if (windowMs > 0 && event.type === 'backup.succeeded') {
+      await this.stateStore.resolve(event.job);
+    }
+
+    const route = this.route(event);
+    if (route.delivery === 'mute') {
+      this.logger.info('Notification muted by route', 'NotificationService', { event: event.type, job: event.job });
+      return this.skipped('notification-muted');
+    }
+    if (route.delivery === 'digest') {
+      this.logger.info('Notification added to digest', 'NotificationService', { event: event.type, job: event.job });
+      // Keyed by recipients too, so a job with its own recipients gets a digest of its own
+      await this.stateStore.addToDigest(route.channels, route.recipients ?? options.recipients, {
+        type: event.type,
+        job: event.job,
+        timestamp: new Date().toISOString(),
+        // Enough for a line in the summary; lists and nested objects stay out of the state
+        data: Object.fromEntries(
+          Object.entries(event.data).filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+        )
+      });
+      return this.skipped('notification-digested');
+    }
+
+    let context = options.context;
+    if (windowMs > 0 && event.severity === 'error') {
+      const decision = await this.stateStore.throttle(this.fingerprint(event), event.job, windowMs);
+      if (!decision.send) {
+        this.logger.info('Repeated notification throttled', 'NotificationService', {
+          event: event.type,
+          job: event.job,
+          suppressed: decision.suppressed
+        });
+        return this.skipped('notification-throttled');
+      }
+      if (decision.suppressed > 0) {
+        const suppressed = { count: decision.suppressed, since: decision.firstSuppressedAt };
+        event = { ...event, data: { ...event.data, suppressed } };
+        context = { ...context, suppressed };
+      }
+    }
+
+    return this.deliver(event, {
+      channels: route.channels,
+      recipients: route.recipients ?? options.recipients,
+      attachments: options.attachments,
+      context
+    });
+  }
+
+  /** The first route matching the event; without one, NOTIFICATION_CHANNELS and NOTIFICATION_SUCCESS_DELIVERY apply */
+  private route(event: NotificationEvent): ResolvedRoute {
+    const route = (this.configService.get('NOTIFICATION_ROUTES') ?? []).find(candidate =>
+      (!candidate.events || candidate.events.includes(event.type)) &&
+      (!candidate.severity || candidate.severity === event.severity) &&
+      (!candidate.jobs || (event.job !== undefined && candidate.jobs.includes(event.job)))
+    );
+    const digestible = (digestibleEventTypes as readonly string[]).includes(event.type);
+    return {
+      channels: route?.channels ?? this.configService.get('NOTIFICATION_CHANNELS'),
+      recipients: route?.recipients,
+      delivery: route?.delivery ?? (digestible ? this.configService.get('NOTIFICATION_SUCCESS_DELIVERY') : 'immediate')
+    };
+  }
+
+  /**
+   * Identifies repeats of the same failure: the same event and job with the
+   * same error, once timestamps (which differ on every run) are taken out.
+   */
+  private fingerprint(event: NotificationEvent): string {
+    const error = typeof event.data.error === 'string' ? event.data.error : JSON.stringify(event.data);
+    const normalized = error.replace(/\d{4}-\d{2}-\d{2}[T\d:.-]*Z?/g, '<time>');
+    return crypto
+      .createHash('sha256')
+      .update([event.type, event.job ?? '', normalized].join('\n'))
+      .digest('hex')
+      .slice(0, 32);
+  }
+
+  /** Renders the event's templates and sends the result through the channels */
+  private async deliver(
+    event: NotificationEvent,
+    options: {
+      channels: NotificationChannel[];
+      recipients: string[];
+      attachments?: NotificationAttachment[];
+      context?: Record<string, unknown>;
+    }
+  ): Promise<NotificationResult> {
+    let rendered: RenderedNotification;
+    try {
+      // Redacted before rendering too, since HTML escaping would hide `key=value` credentials
+      rendered = this.templateService.render(
+        this.redactionService.redactValue({ ...event, data: { ...event.data, ...options.context } })
+      );
+    } catch (error) {
+      // A broken template override must not turn a backup failure into an unhandled one
+      this.logger.error('Failed to render notification', 'NotificationService', error, { event: event.type });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    return this.sendNotification({
+      subject: rendered.subject,
+      message: rendered.text,
+      html: rendered.html,
+      recipients: options.recipients,
+      attachments: options.attachments,
+      event
+    }, options.channels);
+  }
+
+  private getNotificationRecipients(): string[] {
+    const recipients = this.configService.get('NOTIFICATION_RECIPIENTS');
+    if (!recipients) {
+      this.logger.warn('No notification recipients configured, using default email', 'NotificationService');
+      return ['admin@example.com']; // Default fallback
+    }
+    return recipients;
   }
 }
 
@@ -0,0 +1,209 @@
+import { singleton, inject } from 'tsyringe';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import {
+  GetObjectCommandInput,
+  GetObjectCommandOutput,
+  PutObjectCommandInput,
+} from '@aws-sdk/client-s3';
+import { NotificationChannel, NotificationEventType } from './notification.routes';
+import { StorageService } from '../storage/storage.service';
+import { isObjectNotFound } from '../storage/storage.errors';
+import { Logger } from '../utils/logger/logger';
+
+/** Not a backup archive, so the backups API can neither list nor delete it */
+const STATE_KEY = 'notifications/state.json';
+/** Throttle entries this old are forgotten, even with a longer window */
+const THROTTLE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/** Bounds the state object when no scheduled run flushes the digest for a long time */
+const MAX_DIGEST_ENTRIES = 500;
+
+interface ThrottleEntry {
+  job?: string;
+  lastSentAt: string;
+  suppressed: number;
+  firstSuppressedAt?: string;
+}
+
+export interface DigestEntry {
+  type: NotificationEventType;
+  job?: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+/** Digested events that go to the same place */
+export interface Digest {
+  channels: NotificationChannel[];
+  recipients?: string[];
+  since: string;
+  entries: DigestEntry[];
+  /** Entries dropped after MAX_DIGEST_ENTRIES */
+  dropped: number;
+}
+
+export interface ThrottleDecision {
+  send: boolean;
+  /** Identical notifications suppressed since the last one sent */
+  suppressed: number;
+  firstSuppressedAt?: string;
+}
+
+interface NotificationState {
+  throttle: Record<string, ThrottleEntry>;
+  digests: Record<string, Digest>;
+}
+
+/**
+ * What notifications need to remember between invocations: when each failure
+ * was last sent, and the events waiting for the daily digest. It is a small
+ * JSON object on the first storage destination, so concurrent invocations
+ * may occasionally both send a notification one of them should have held.
+ * Without storage it lives in memory, for the lifetime of the process.
+ */
+@singleton()
+class NotificationStateStore {
+  private memory: NotificationState = { throttle: {}, digests: {} };
+
+  constructor(
+    @inject(StorageService) private readonly storageService: StorageService,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  /** Records a failure, and whether it goes out or is held back as a repeat within the window */
+  async throttle(
+    fingerprint: string,
+    job: string | undefined,
+    windowMs: number,
+    now = new Date(),
+  ): Promise<ThrottleDecision> {
+    return this.update(state => {
+      const entry = state.throttle[fingerprint];
+      if (entry && now.getTime() - Date.parse(entry.lastSentAt) < windowMs) {
+        entry.suppressed += 1;
+        entry.firstSuppressedAt ??= now.toISOString();
+        return { send: false, suppressed: entry.suppressed };
+      }
+
+      state.throttle[fingerprint] = { job, lastSentAt: now.toISOString(), suppressed: 0 };
+      return {
+        send: true,
+        suppressed: entry?.suppressed ?? 0,
+        firstSuppressedAt: entry?.firstSuppressedAt,
+      };
+    }, now);
+  }
+
+  /** Forgets the job's failures once it succeeds, so the next failure is reported at once */
+  async resolve(job: string | undefined, now = new Date()): Promise<void> {
+    const state = await this.load();
+    if (!Object.values(state.throttle).some(entry => entry.job === job)) return;
+
+    await this.update(current => {
+      current.throttle = Object.fromEntries(
+        Object.entries(current.throttle).filter(([, entry]) => entry.job !== job),
+      );
+    }, now);
+  }
+
+  async addToDigest(
+    channels: NotificationChannel[],
+    recipients: string[] | undefined,
+    entry: DigestEntry,
+    now = new Date(),
+  ): Promise<void> {
+    await this.update(state => {
+      const key = JSON.stringify([
+        [...channels].sort(),
+        recipients ? [...recipients].sort() : null,
+      ]);
+      const digest = (state.digests[key] ??= {
+        channels,
+        recipients,
+        since: now.toISOString(),
+        entries: [],
+        dropped: 0,
+      });
+      if (digest.entries.length < MAX_DIGEST_ENTRIES) {
+        digest.entries.push(entry);
+      } else {
+        digest.dropped += 1;
+      }
+    }, now);
+  }
+
+  /** Digests started on an earlier (UTC) day than `now`, or all of them with `force` */
+  async getDueDigests(now = new Date(), force = false): Promise<Record<string, Digest>> {
+    const state = await this.load();
+    const today = now.toISOString().slice(0, 10);
+    return Object.fromEntries(
+      Object.entries(state.digests).filter(
+        ([, digest]) => force || digest.since.slice(0, 10) < today,
+      ),
+    );
+  }
+
+  async clearDigest(key: string, now = new Date()): Promise<void> {
+    await this.update(state => {
+      state.digests = Object.fromEntries(
+        Object.entries(state.digests).filter(([candidate]) => candidate !== key),
+      );
+    }, now);
+  }
+
+  private async update<T>(change: (state: NotificationState) => T, now: Date): Promise<T> {
+    const state = await this.load();
+    const result = change(state);
+
+    state.throttle = Object.fromEntries(
+      Object.entries(state.throttle).filter(
+        ([, entry]) => now.getTime() - Date.parse(entry.lastSentAt) <= THROTTLE_TTL_MS,
+      ),
+    );
+    await this.save(state);
+    return result;
+  }
+
+  private async load(): Promise<NotificationState> {
+    const target = this.storageService.getStateTarget('notification state');
+    if (!target) return this.memory;
+
+    try {
+      const response = await target.provider.get<GetObjectCommandInput, GetObjectCommandOutput>({
+        Bucket: target.bucket,
+        Key: STATE_KEY,
+      });
+      const body = response.Body ? await text(response.Body as Readable) : undefined;
+      this.memory = body ? (JSON.parse(body) as NotificationState) : this.memory;
+    } catch (error) {
+      if (!isObjectNotFound(error)) {
+        // Better to send a repeat than to lose an alert over unreadable state
+        this.logger.warn('Notification state could not be loaded', 'NotificationStateStore', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return this.memory;
+  }
+
+  private async save(state: NotificationState): Promise<void> {
+    this.memory = state;
+    const target = this.storageService.getStateTarget('notification state');
+    if (!target) return;
+
+    try {
+      await target.provider.save<PutObjectCommandInput>({
+        Bucket: target.bucket,
+        Key: STATE_KEY,
+        Body: JSON.stringify(state),
+        ContentType: 'application/json',
+      });
+    } catch (error) {
+      this.logger.warn('Notification state could not be saved', 'NotificationStateStore', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export { NotificationStateStore };
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { NotificationAttachment } from './notification.provider';
+
+const CRLF = '\r\n';
+
+export interface MimeMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: NotificationAttachment[];
+  date?: Date;
+}
+
+export interface BuiltMimeMessage {
+  messageId: string;
+  /** The complete message with CRLF line endings, as SMTP and SES raw sends expect */
+  raw: string;
+}
+
+/** Header values never span lines, so a crafted subject can't add headers */
+const sanitizeHeader = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+/** RFC 2047 encoded-word for header values that aren't plain ASCII */
+const encodeHeader = (value: string) => {
+  const clean = sanitizeHeader(value);
+  return /^[\x20-\x7e]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`;
+};
+
+const encodeBase64 = (content: Buffer | string) =>
+  (Buffer.from(content).toString('base64').match(/.{1,76}/g) ?? []).join(CRLF);
+
+const createBoundary = () => `----=_BackupNimbus_${crypto.randomBytes(12).toString('hex')}`;
+
+/** RFC 2231 parameter, so non-ASCII filenames survive */
+const filenameParameter = (filename: string) => {
+  const clean = sanitizeHeader(filename);
+  return /^[\x20-\x7e]*$/.test(clean)
+    ? `filename="${clean.replace(/["\\]/g, '\\$&')}"`
+    : `filename*=UTF-8''${encodeURIComponent(clean)}`;
+};
+
+const textPart = (content: string, subtype: 'plain' | 'html') =>
+  [
+    `Content-Type: text/${subtype}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64(content),
+  ].join(CRLF);
+
+const attachmentPart = (attachment: NotificationAttachment) =>
+  [
+    `Content-Type: ${sanitizeHeader(attachment.contentType ?? 'application/octet-stream')}`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; ${filenameParameter(attachment.filename)}`,
+    '',
+    encodeBase64(attachment.content),
+  ].join(CRLF);
+
+const multipart = (subtype: 'alternative' | 'mixed', parts: string[]) => {
+  const boundary = createBoundary();
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+};
+
+/**
+ * Builds a MIME message: text and HTML as multipart/alternative, wrapped in
+ * multipart/mixed when there are attachments. Bcc recipients are left out on
+ * purpose; they belong only in the envelope.
+ */
+const buildMimeMessage = (message: MimeMessage): BuiltMimeMessage => {
+  const domain = message.from.split('@').pop()?.replace(/[^\w.-]/g, '') || 'backupnimbus';
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+
+  const body = message.html
+    ? multipart('alternative', [textPart(message.text, 'plain'), textPart(message.html, 'html')])
+    : textPart(message.text, 'plain');
+  const content = message.attachments?.length
+    ? multipart('mixed', [body, ...message.attachments.map(attachmentPart)])
+    : body;
+
+  const headers = [
+    `From: ${sanitizeHeader(message.from)}`,
+    `To: ${message.to.map(sanitizeHeader).join(', ')}`,
+    ...(message.cc?.length ? [`Cc: ${message.cc.map(sanitizeHeader).join(', ')}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(message.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+
+  return { messageId, raw: `${headers.join(CRLF)}${CRLF}${content}${CRLF}` };
+};
+
+export { buildMimeMessage };
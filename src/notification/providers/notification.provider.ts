@@ -1,3 +1,5 @@
+import { NotificationEventType } from '../notification.routes';
+
 export interface NotificationOptions {
   subject: string;
   message: string;
@@ -6,8 +8,20 @@ export interface NotificationOptions {
   cc?: string[];
   bcc?: string[];
   attachments?: NotificationAttachment[];
+  /** What happened, for channels that format or route on it rather than on the text */
+  event?: NotificationEvent;
+}
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  severity: 'info' | 'error';
+  /** The backup job it concerns, for routing */
+  job?: string;
+  data: Record<string, unknown>;
 }
 
+export type { NotificationEventType };
+
 export interface NotificationAttachment {
   filename: string;
   content: Buffer | string;
@@ -19,9 +33,14 @@ export interface NotificationResult {
   messageId?: string;
   error?: string;
   timestamp: string;
+  /** Name of the provider that sent it */
+  channel?: string;
+  /** One result per channel, when sent through several */
+  channels?: NotificationResult[];
 }
 
 abstract class NotificationProvider {
+  abstract readonly name: string;
   abstract send(options: NotificationOptions): Promise<NotificationResult>;
 }
 
@@ -1,6 +1,13 @@
 import { singleton, inject } from 'tsyringe';
-import { SESClient, SendEmailCommand, SendEmailCommandInput } from '@aws-sdk/client-ses';
+import {
+  SESClient,
+  SendEmailCommand,
+  SendEmailCommandInput,
+  SendRawEmailCommand,
+  SendRawEmailCommandInput
+} from '@aws-sdk/client-ses';
 import { NotificationProvider, NotificationOptions, NotificationResult } from './notification.provider';
+import { buildMimeMessage } from './mime.builder';
 import { ConfigService } from '../../config/config.service';
 import { configSchema } from '../../config/config.schema';
 import { z } from 'zod';
@@ -9,6 +16,7 @@ import { NotificationError } from '../../error';
 
 @singleton()
 class SESNotificationProvider extends NotificationProvider {
+  readonly name = 'email';
   private readonly sesClient: SESClient;
   
   constructor(
@@ -33,11 +41,10 @@ class SESNotificationProvider extends NotificationProvider {
       });
       
       const senderEmail = this.getSenderEmail();
-      const params = this.buildSESParams(senderEmail, options);
-      
-      this.logger.debug('Sending email via SES', 'SESNotificationProvider', { params });
-      const command = new SendEmailCommand(params);
-      const response = await this.sesClient.send(command);
+      // SendEmail can't carry attachments, so those messages are built as raw MIME
+      const response = options.attachments?.length
+        ? await this.sesClient.send(new SendRawEmailCommand(this.buildRawParams(senderEmail, options)))
+        : await this.sendEmail(senderEmail, options);
       
       this.logger.info('Email sent successfully', 'SESNotificationProvider', { 
         messageId: response.MessageId 
@@ -69,7 +76,41 @@ class SESNotificationProvider extends NotificationProvider {
       throw new NotificationError('Sender email is not configured');
     }
     
-    return Buffer.from(senderEmail, 'base64').toString();
+    return senderEmail;
+  }
+  
+  private async sendEmail(senderEmail: string, options: NotificationOptions) {
+    const params = this.buildSESParams(senderEmail, options);
+    // Not the params: the body can quote anything, and the log outlives the email
+    this.logger.debug('Sending email via SES', 'SESNotificationProvider', {
+      subject: options.subject,
+      destinations: params.Destination?.ToAddresses?.length ?? 0
+    });
+    return this.sesClient.send(new SendEmailCommand(params));
+  }
+  
+  private buildRawParams(senderEmail: string, options: NotificationOptions): SendRawEmailCommandInput {
+    const { raw } = buildMimeMessage({
+      from: senderEmail,
+      to: options.recipients,
+      cc: options.cc,
+      subject: options.subject,
+      text: options.message,
+      html: options.html,
+      attachments: options.attachments
+    });
+    this.logger.debug('Sending raw email via SES', 'SESNotificationProvider', {
+      subject: options.subject,
+      attachments: options.attachments?.map(attachment => attachment.filename),
+      bytes: Buffer.byteLength(raw)
+    });
+    
+    return {
+      Source: senderEmail,
+      // Bcc recipients are only in the envelope, never in the message headers
+      Destinations: [...options.recipients, ...(options.cc ?? []), ...(options.bcc ?? [])],
+      RawMessage: { Data: Buffer.from(raw) }
+    };
   }
   
   private buildSESParams(senderEmail: string, options: NotificationOptions): SendEmailCommandInput {
@@ -98,7 +139,6 @@ class SESNotificationProvider extends NotificationProvider {
           })
         }
       }
-      // Note: For attachments, we would need to use SendRawEmailCommand instead
     };
   }
 }
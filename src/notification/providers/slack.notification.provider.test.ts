@@ -0,0 +1,119 @@
+import 'reflect-metadata';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SlackNotificationProvider } from './slack.notification.provider';
+import { ConfigService } from '../../config/config.service';
+import { StaticConfigProvider } from '../../config/providers/static.config.provider';
+import { RedactionService } from '../../redaction/redaction.service';
+import { Logger } from '../../utils/logger/logger';
+
+describe('SlackNotificationProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  /** Status of each response in turn; 200 once they run out */
+  let statuses: number[];
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        const status = statuses.shift() ?? 200;
+        response.writeHead(status, { 'Retry-After': '0' }).end(status === 200 ? 'ok' : 'no_text');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  const createProvider = async () => {
+    const redactionService = new RedactionService();
+    const configService = new ConfigService(
+      [
+        new StaticConfigProvider({
+          LOG_LEVEL: 'ERROR',
+          NOTIFICATION_SLACK_WEBHOOK_URL: `${baseUrl}/services/T000/B000/XXXX`,
+          NOTIFICATION_BRAND_NAME: 'BackupNimbus',
+        }),
+      ],
+      redactionService,
+    );
+    await configService.load();
+    return new SlackNotificationProvider(configService, new Logger(configService, redactionService));
+  };
+
+  it('posts a Block Kit message with the event data as fields', async () => {
+    const provider = await createProvider();
+
+    const result = await provider.send({
+      subject: 'Backup Failed',
+      message: 'Dump of <orders> & <billing> failed',
+      recipients: [],
+      event: {
+        type: 'backup.failed',
+        severity: 'error',
+        data: { backupId: 'backups/orders/x.archive.gz', size: 42, nested: { skipped: true } },
+      },
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(received.length, 1);
+    assert.equal(received[0].headers['content-type'], 'application/json');
+
+    const payload = JSON.parse(received[0].body);
+    assert.equal(payload.text, 'Backup Failed');
+    const [header, section, fields, context] = payload.blocks;
+    assert.deepEqual(header.text, {
+      type: 'plain_text',
+      text: ':red_circle: Backup Failed',
+      emoji: true,
+    });
+    assert.equal(section.text.text, 'Dump of &lt;orders&gt; &amp; &lt;billing&gt; failed');
+    assert.deepEqual(
+      fields.fields.map((field: { text: string }) => field.text),
+      ['*Backup id*\nbackups/orders/x.archive.gz', '*Size*\n42'],
+    );
+    assert.match(context.elements[0].text, /^BackupNimbus · backup\.failed · /);
+  });
+
+  it('reports a rejected message without retrying it', async () => {
+    const provider = await createProvider();
+    statuses = [404];
+
+    const result = await provider.send({
+      subject: 'Backup Completed',
+      message: 'ok',
+      recipients: [],
+    });
+
+    assert.equal(result.success, false);
+    assert.equal(received.length, 1);
+    assert.match(result.error ?? '', /HTTP 404: no_text/);
+  });
+
+  it('retries when Slack is unavailable', async () => {
+    const provider = await createProvider();
+    statuses = [503];
+
+    const result = await provider.send({
+      subject: 'Backup Completed',
+      message: 'ok',
+      recipients: [],
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(received.length, 2);
+    assert.equal(received[0].body, received[1].body);
+  });
+});
@@ -0,0 +1,136 @@
+import { singleton, inject } from 'tsyringe';
+import { z } from 'zod';
+import {
+  NotificationOptions,
+  NotificationProvider,
+  NotificationResult,
+} from './notification.provider';
+import { postJson } from './webhook.client';
+import { ConfigService } from '../../config/config.service';
+import { configSchema } from '../../config/config.schema';
+import { NotificationError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+// Slack's Block Kit limits
+const MAX_HEADER_LENGTH = 150;
+const MAX_TEXT_LENGTH = 3000;
+const MAX_FIELDS = 10;
+const MAX_FIELD_LENGTH = 2000;
+
+type SlackBlock = Record<string, unknown>;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/** Slack treats these three as control characters in mrkdwn */
+const escape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** `backupId` -> `Backup id` */
+const toLabel = (key: string) => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Posts notifications to a Slack incoming webhook (NOTIFICATION_SLACK_WEBHOOK_URL)
+ * as Block Kit messages: the subject as header, the message, and the event's
+ * simple values as fields.
+ */
+@singleton()
+class SlackNotificationProvider extends NotificationProvider {
+  readonly name = 'slack';
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    super();
+  }
+
+  async send(options: NotificationOptions): Promise<NotificationResult> {
+    try {
+      const url = this.configService.get('NOTIFICATION_SLACK_WEBHOOK_URL');
+      if (!url) {
+        this.logger.error('Slack webhook URL is not configured', 'SlackNotificationProvider');
+        throw new NotificationError('Slack webhook URL is not configured');
+      }
+
+      const timestamp = new Date().toISOString();
+      const response = await postJson(
+        url,
+        JSON.stringify({
+          // Shown in the push notification and by clients that can't render blocks
+          text: options.subject,
+          blocks: this.buildBlocks(options, timestamp),
+        }),
+        {
+          maxAttempts: this.configService.get('NOTIFICATION_WEBHOOK_MAX_ATTEMPTS'),
+          timeoutMs: this.configService.get('NOTIFICATION_WEBHOOK_TIMEOUT_SECONDS') * 1000,
+          onRetry: (attempt, reason) =>
+            this.logger.warn('Retrying Slack notification', 'SlackNotificationProvider', {
+              attempt,
+              reason,
+            }),
+        },
+      );
+
+      this.logger.info('Slack notification delivered', 'SlackNotificationProvider', {
+        attempts: response.attempts,
+      });
+      return { success: true, timestamp };
+    } catch (error) {
+      this.logger.error('Failed to send Slack notification', 'SlackNotificationProvider', error, {
+        subject: options.subject,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private buildBlocks(options: NotificationOptions, timestamp: string): SlackBlock[] {
+    const icon = options.event?.severity === 'error' ? ':red_circle:' : ':large_green_circle:';
+    const blocks: SlackBlock[] = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: truncate(`${icon} ${options.subject}`, MAX_HEADER_LENGTH),
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: truncate(escape(options.message), MAX_TEXT_LENGTH) },
+      },
+    ];
+
+    const fields = Object.entries(options.event?.data ?? {})
+      .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+      .slice(0, MAX_FIELDS)
+      .map(([key, value]) => ({
+        type: 'mrkdwn',
+        text: truncate(`*${toLabel(key)}*\n${escape(String(value))}`, MAX_FIELD_LENGTH),
+      }));
+    if (fields.length > 0) {
+      blocks.push({ type: 'section', fields });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `${escape(this.configService.get('NOTIFICATION_BRAND_NAME'))}${options.event ? ` · ${options.event.type}` : ''} · ${timestamp}`,
+        },
+      ],
+    });
+    return blocks;
+  }
+}
+
+export { SlackNotificationProvider };
@@ -0,0 +1,186 @@
+import 'reflect-metadata';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { SESNotificationProvider } from './ses.notification.provider';
+import { SlackNotificationProvider } from './slack.notification.provider';
+import { SmtpNotificationProvider } from './smtp.notification.provider';
+import { WebhookNotificationProvider } from './webhook.notification.provider';
+import { NotificationService } from '../notification.service';
+import { NotificationStateStore } from '../notification.state';
+import { NotificationTemplateService } from '../templates/template.service';
+import { ConfigService } from '../../config/config.service';
+import { StaticConfigProvider } from '../../config/providers/static.config.provider';
+import { MetricsService } from '../../metrics/metrics.service';
+import { RedactionService } from '../../redaction/redaction.service';
+import { StorageService } from '../../storage/storage.service';
+import { Logger } from '../../utils/logger/logger';
+
+interface ReceivedMail {
+  from?: string;
+  to: string[];
+  raw: string;
+}
+
+/** Decoded attachments of a raw MIME message, by filename */
+const attachmentsOf = (raw: string) => {
+  const attachments: Record<string, { contentType: string; content: string }> = {};
+  const pattern =
+    /Content-Type: ([^\r\n]+)\r\nContent-Transfer-Encoding: base64\r\nContent-Disposition: attachment; filename="([^"]+)"\r\n\r\n([A-Za-z0-9+/=\r\n]+)/g;
+  for (const [, contentType, filename, body] of raw.matchAll(pattern)) {
+    attachments[filename] = {
+      contentType,
+      content: Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8'),
+    };
+  }
+  return attachments;
+};
+
+describe('SmtpNotificationProvider', () => {
+  let server: SMTPServer;
+  let port: number;
+  let received: ReceivedMail[];
+
+  before(async () => {
+    server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      onRcptTo(address, _session, callback) {
+        callback(
+          address.address.endsWith('@invalid.test') ? new Error('No such mailbox') : undefined,
+        );
+      },
+      onData(stream, session, callback) {
+        const chunks: Buffer[] = [];
+        stream.on('data', chunk => chunks.push(chunk));
+        stream.on('end', () => {
+          received.push({
+            from: session.envelope.mailFrom ? session.envelope.mailFrom.address : undefined,
+            to: session.envelope.rcptTo.map(recipient => recipient.address),
+            raw: Buffer.concat(chunks).toString('utf8'),
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.server.address() as AddressInfo).port;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  const createConfig = async (values: Record<string, string> = {}) => {
+    const redactionService = new RedactionService();
+    const configService = new ConfigService(
+      [
+        new StaticConfigProvider({
+          LOG_LEVEL: 'ERROR',
+          NOTIFICATION_SENDER_EMAIL: 'backups@example.com',
+          SMTP_HOST: '127.0.0.1',
+          SMTP_PORT: String(port),
+          SMTP_TLS_MODE: 'none',
+          ...values,
+        }),
+      ],
+      redactionService,
+    );
+    await configService.load();
+    return { configService, redactionService, logger: new Logger(configService, redactionService) };
+  };
+
+  it('sends the raw message with every recipient in the envelope', async () => {
+    const { configService, logger } = await createConfig();
+    const provider = new SmtpNotificationProvider(configService, logger);
+
+    const result = await provider.send({
+      subject: 'Sicherung abgeschlossen ✓',
+      message: 'Backup completed',
+      html: '<p>Backup completed</p>',
+      recipients: ['ops@example.com'],
+      cc: ['lead@example.com'],
+      bcc: ['audit@example.com'],
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(received.length, 1);
+    const [mail] = received;
+    assert.equal(mail.from, 'backups@example.com');
+    assert.deepEqual(mail.to, ['ops@example.com', 'lead@example.com', 'audit@example.com']);
+
+    assert.match(mail.raw, /^From: backups@example\.com\r\n/m);
+    assert.match(mail.raw, /^To: ops@example\.com\r\n/m);
+    assert.match(mail.raw, /^Cc: lead@example\.com\r\n/m);
+    assert.doesNotMatch(mail.raw, /audit@example\.com/);
+    assert.match(mail.raw, new RegExp(`^Message-ID: ${result.messageId}\r\n`, 'm'));
+    const subject = Buffer.from('Sicherung abgeschlossen ✓').toString('base64');
+    assert.match(mail.raw, new RegExp(`^Subject: =\\?UTF-8\\?B\\?${subject}\\?=\r\n`, 'm'));
+    assert.match(mail.raw, /^Content-Type: multipart\/alternative; boundary="/m);
+    assert.match(mail.raw, /^Content-Type: text\/plain; charset=UTF-8\r\n/m);
+    assert.match(mail.raw, /^Content-Type: text\/html; charset=UTF-8\r\n/m);
+  });
+
+  it('reports a recipient the server refuses', async () => {
+    const { configService, logger } = await createConfig();
+    const provider = new SmtpNotificationProvider(configService, logger);
+
+    const result = await provider.send({
+      subject: 'Backup Completed',
+      message: 'ok',
+      recipients: ['nobody@invalid.test'],
+    });
+
+    assert.equal(result.success, false);
+    assert.equal(received.length, 0);
+    assert.match(result.error ?? '', /No such mailbox/);
+  });
+
+  it('attaches stderr and the log excerpt to failure emails', async () => {
+    const { configService, redactionService, logger } = await createConfig({
+      NOTIFICATIONS_ENABLED: 'true',
+      NOTIFICATION_CHANNELS: 'smtp',
+      NOTIFICATION_THROTTLE_MINUTES: '0',
+    });
+    const metricsService = new MetricsService(configService, logger);
+    const notificationService = new NotificationService(
+      new SESNotificationProvider(configService, logger),
+      new SmtpNotificationProvider(configService, logger),
+      new WebhookNotificationProvider(configService, logger),
+      new SlackNotificationProvider(configService, logger),
+      new NotificationTemplateService(configService, logger),
+      new NotificationStateStore(new StorageService(configService, metricsService, logger), logger),
+      redactionService,
+      logger,
+      configService,
+    );
+    logger.error('mongodump exited with code 1', 'MongoBackupProvider');
+
+    const result = await notificationService.sendBackupFailureNotification(
+      'mongodump exited with code 1',
+      { job: 'orders' },
+      ['oncall@example.com'],
+      'Failed: connection refused\n',
+    );
+
+    assert.equal(result.success, true);
+    assert.equal(received.length, 1);
+    const [mail] = received;
+    assert.deepEqual(mail.to, ['oncall@example.com']);
+    assert.match(mail.raw, /^Content-Type: multipart\/mixed; boundary="/m);
+
+    const attachments = attachmentsOf(mail.raw);
+    assert.deepEqual(Object.keys(attachments), ['stderr.txt', 'log-excerpt.txt']);
+    assert.deepEqual(attachments['stderr.txt'], {
+      contentType: 'text/plain; charset=UTF-8',
+      content: 'Failed: connection refused\n',
+    });
+    assert.match(
+      attachments['log-excerpt.txt'].content,
+      /\[ERROR\] \[MongoBackupProvider\] mongodump exited with code 1/,
+    );
+  });
+});
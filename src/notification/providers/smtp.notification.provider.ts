@@ -0,0 +1,107 @@
+import { singleton, inject } from 'tsyringe';
+import nodemailer, { Transporter } from 'nodemailer';
+import { z } from 'zod';
+import {
+  NotificationOptions,
+  NotificationProvider,
+  NotificationResult,
+} from './notification.provider';
+import { buildMimeMessage } from './mime.builder';
+import { ConfigService } from '../../config/config.service';
+import { configSchema } from '../../config/config.schema';
+import { NotificationError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+/**
+ * Sends email through any SMTP server, for deployments outside AWS or limited
+ * by the SES sandbox. SMTP_TLS_MODE picks STARTTLS (required, not merely
+ * attempted), implicit TLS, or plaintext for local mail sinks.
+ */
+@singleton()
+class SmtpNotificationProvider extends NotificationProvider {
+  readonly name = 'smtp';
+  private transport?: Transporter;
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    super();
+  }
+
+  async send(options: NotificationOptions): Promise<NotificationResult> {
+    try {
+      const from = this.configService.get('NOTIFICATION_SENDER_EMAIL');
+      if (!from) {
+        this.logger.error('Sender email is not configured', 'SmtpNotificationProvider');
+        throw new NotificationError('Sender email is not configured');
+      }
+
+      const { messageId, raw } = buildMimeMessage({
+        from,
+        to: options.recipients,
+        cc: options.cc,
+        subject: options.subject,
+        text: options.message,
+        html: options.html,
+        attachments: options.attachments,
+      });
+
+      this.logger.info('Sending email via SMTP', 'SmtpNotificationProvider', {
+        subject: options.subject,
+        recipients: options.recipients.length,
+        attachments: options.attachments?.length ?? 0,
+      });
+      const info = await this.getTransport().sendMail({
+        envelope: {
+          from,
+          to: [...options.recipients, ...(options.cc ?? []), ...(options.bcc ?? [])],
+        },
+        raw,
+      });
+
+      this.logger.info('Email sent successfully', 'SmtpNotificationProvider', {
+        messageId,
+        response: info.response,
+      });
+      return { success: true, messageId, timestamp: new Date().toISOString() };
+    } catch (error) {
+      this.logger.error('Failed to send email via SMTP', 'SmtpNotificationProvider', error, {
+        subject: options.subject,
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private getTransport(): Transporter {
+    if (this.transport) return this.transport;
+
+    const host = this.configService.get('SMTP_HOST');
+    if (!host) {
+      throw new NotificationError('SMTP host is not configured');
+    }
+    const tlsMode = this.configService.get('SMTP_TLS_MODE');
+    const user = this.configService.get('SMTP_USERNAME');
+
+    this.transport = nodemailer.createTransport({
+      host,
+      port: this.configService.get('SMTP_PORT'),
+      secure: tlsMode === 'tls',
+      requireTLS: tlsMode === 'starttls',
+      ignoreTLS: tlsMode === 'none',
+      auth: user ? { user, pass: this.configService.get('SMTP_PASSWORD') } : undefined,
+      tls: { rejectUnauthorized: this.configService.get('SMTP_TLS_VERIFY') },
+      connectionTimeout: 10_000,
+      greetingTimeout: 10_000,
+      socketTimeout: 30_000,
+    });
+    return this.transport;
+  }
+}
+
+export { SmtpNotificationProvider };
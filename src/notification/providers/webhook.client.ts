@@ -0,0 +1,84 @@
+import { NotificationError } from '../../error';
+
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+export interface WebhookRequestOptions {
+  headers?: Record<string, string>;
+  maxAttempts: number;
+  timeoutMs: number;
+  /** Called before each retry, e.g. to log it */
+  onRetry?: (attempt: number, reason: string) => void;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+  attempts: number;
+}
+
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds >= 0
+    ? Math.min(seconds * 1000, MAX_RETRY_DELAY_MS)
+    : undefined;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs a JSON body, retrying with exponential backoff after network errors,
+ * timeouts, 408, 429 and 5xx responses. Other 4xx responses mean the request
+ * itself is wrong, so they fail at once. Errors never include the URL, which
+ * often carries a token.
+ */
+const postJson = async (
+  url: string,
+  body: string,
+  options: WebhookRequestOptions,
+): Promise<WebhookResponse> => {
+  let lastError = 'no attempts made';
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    let retryAfterMs: number | undefined;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      const text = await response.text();
+      if (response.ok) {
+        return { status: response.status, body: text, attempts: attempt };
+      }
+
+      lastError = `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`;
+      if (!isRetryable(response.status)) {
+        throw new NotificationError(`Webhook rejected the request: ${lastError}`, {
+          details: { status: response.status, attempts: attempt },
+        });
+      }
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    } catch (error) {
+      if (error instanceof NotificationError) throw error;
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < options.maxAttempts) {
+      options.onRetry?.(attempt, lastError);
+      await sleep(
+        retryAfterMs ?? Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS),
+      );
+    }
+  }
+
+  throw new NotificationError(
+    `Webhook request failed after ${options.maxAttempts} attempts: ${lastError}`,
+    { details: { attempts: options.maxAttempts } },
+  );
+};
+
+export { postJson };
@@ -0,0 +1,151 @@
+import 'reflect-metadata';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WEBHOOK_HEADERS, WebhookNotificationProvider } from './webhook.notification.provider';
+import { ConfigService } from '../../config/config.service';
+import { StaticConfigProvider } from '../../config/providers/static.config.provider';
+import { RedactionService } from '../../redaction/redaction.service';
+import { Logger } from '../../utils/logger/logger';
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookNotificationProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  /** Status of each response in turn; 200 once they run out */
+  let statuses: number[];
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ method: request.method, url: request.url, headers: request.headers, body });
+        const status = statuses.shift() ?? 200;
+        // Retry-After: 0 keeps the retry backoff out of the test's run time
+        response.writeHead(status, { 'Retry-After': '0' }).end(status === 200 ? 'ok' : 'nope');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  const createProvider = async (values: Record<string, string> = {}) => {
+    const redactionService = new RedactionService();
+    const configService = new ConfigService(
+      [
+        new StaticConfigProvider({
+          LOG_LEVEL: 'ERROR',
+          NOTIFICATION_WEBHOOK_URL: `${baseUrl}/hooks/backup`,
+          NOTIFICATION_WEBHOOK_MAX_ATTEMPTS: '3',
+          ...values,
+        }),
+      ],
+      redactionService,
+    );
+    await configService.load();
+    return new WebhookNotificationProvider(configService, new Logger(configService, redactionService));
+  };
+
+  const notification = {
+    subject: 'Backup Failed',
+    message: 'mongodump exited with code 1',
+    recipients: [],
+    event: {
+      type: 'backup.failed' as const,
+      severity: 'error' as const,
+      job: 'orders',
+      data: { error: 'mongodump exited with code 1' },
+    },
+  };
+
+  it('posts the event as signed JSON', async () => {
+    const provider = await createProvider({ NOTIFICATION_WEBHOOK_SECRET: 'webhook-secret' });
+
+    const result = await provider.send(notification);
+
+    assert.equal(result.success, true);
+    assert.equal(received.length, 1);
+    const [request] = received;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.url, '/hooks/backup');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(request.headers[WEBHOOK_HEADERS.delivery.toLowerCase()], result.messageId);
+
+    const payload = JSON.parse(request.body);
+    assert.equal(payload.id, result.messageId);
+    assert.equal(payload.event, 'backup.failed');
+    assert.equal(payload.severity, 'error');
+    assert.equal(payload.job, 'orders');
+    assert.equal(payload.subject, 'Backup Failed');
+    assert.equal(payload.message, 'mongodump exited with code 1');
+    assert.deepEqual(payload.data, { error: 'mongodump exited with code 1' });
+
+    const timestamp = request.headers[WEBHOOK_HEADERS.timestamp.toLowerCase()];
+    const expected = crypto
+      .createHmac('sha256', 'webhook-secret')
+      .update(`${timestamp}.${request.body}`)
+      .digest('hex');
+    assert.equal(request.headers[WEBHOOK_HEADERS.signature.toLowerCase()], `sha256=${expected}`);
+  });
+
+  it('leaves requests unsigned without a secret', async () => {
+    const provider = await createProvider();
+
+    await provider.send(notification);
+
+    assert.equal(received[0].headers[WEBHOOK_HEADERS.signature.toLowerCase()], undefined);
+  });
+
+  it('retries server errors with the same delivery ID', async () => {
+    const provider = await createProvider();
+    statuses = [503, 429];
+
+    const result = await provider.send(notification);
+
+    assert.equal(result.success, true);
+    assert.equal(received.length, 3);
+    const deliveryIds = received.map(
+      request => request.headers[WEBHOOK_HEADERS.delivery.toLowerCase()],
+    );
+    assert.deepEqual(deliveryIds, [result.messageId, result.messageId, result.messageId]);
+  });
+
+  it('fails at once when the receiver rejects the request', async () => {
+    const provider = await createProvider();
+    statuses = [400];
+
+    const result = await provider.send(notification);
+
+    assert.equal(result.success, false);
+    assert.equal(received.length, 1);
+    assert.match(result.error ?? '', /rejected the request: HTTP 400/);
+  });
+
+  it('fails once every attempt has failed', async () => {
+    const provider = await createProvider({ NOTIFICATION_WEBHOOK_MAX_ATTEMPTS: '2' });
+    statuses = [500, 500];
+
+    const result = await provider.send(notification);
+
+    assert.equal(result.success, false);
+    assert.equal(received.length, 2);
+    assert.match(result.error ?? '', /failed after 2 attempts: HTTP 500/);
+  });
+});
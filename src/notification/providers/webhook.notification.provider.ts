@@ -0,0 +1,115 @@
+import { singleton, inject } from 'tsyringe';
+import crypto from 'crypto';
+import { z } from 'zod';
+import {
+  NotificationOptions,
+  NotificationProvider,
+  NotificationResult,
+} from './notification.provider';
+import { postJson } from './webhook.client';
+import { ConfigService } from '../../config/config.service';
+import { configSchema } from '../../config/config.schema';
+import { NotificationError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+export const WEBHOOK_HEADERS = {
+  delivery: 'X-BackupNimbus-Delivery',
+  timestamp: 'X-BackupNimbus-Timestamp',
+  signature: 'X-BackupNimbus-Signature',
+} as const;
+
+/**
+ * POSTs each notification as JSON to NOTIFICATION_WEBHOOK_URL, for PagerDuty,
+ * Opsgenie or any in-house receiver.
+ *
+ * With NOTIFICATION_WEBHOOK_SECRET set, requests are signed:
+ * `X-BackupNimbus-Signature: sha256=<hex>` is the HMAC-SHA256 of
+ * `<X-BackupNimbus-Timestamp>.<body>`. Retries keep the same
+ * `X-BackupNimbus-Delivery` ID, so receivers can discard duplicates.
+ */
+@singleton()
+class WebhookNotificationProvider extends NotificationProvider {
+  readonly name = 'webhook';
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    super();
+  }
+
+  async send(options: NotificationOptions): Promise<NotificationResult> {
+    const deliveryId = crypto.randomUUID();
+    try {
+      const url = this.configService.get('NOTIFICATION_WEBHOOK_URL');
+      if (!url) {
+        this.logger.error('Webhook URL is not configured', 'WebhookNotificationProvider');
+        throw new NotificationError('Webhook URL is not configured');
+      }
+
+      const timestamp = new Date().toISOString();
+      const body = JSON.stringify({
+        id: deliveryId,
+        event: options.event?.type,
+        severity: options.event?.severity,
+        job: options.event?.job,
+        subject: options.subject,
+        message: options.message,
+        timestamp,
+        data: options.event?.data ?? {},
+      });
+
+      const response = await postJson(url, body, {
+        headers: this.buildHeaders(deliveryId, body),
+        maxAttempts: this.configService.get('NOTIFICATION_WEBHOOK_MAX_ATTEMPTS'),
+        timeoutMs: this.configService.get('NOTIFICATION_WEBHOOK_TIMEOUT_SECONDS') * 1000,
+        onRetry: (attempt, reason) =>
+          this.logger.warn('Retrying webhook notification', 'WebhookNotificationProvider', {
+            deliveryId,
+            attempt,
+            reason,
+          }),
+      });
+
+      this.logger.info('Webhook notification delivered', 'WebhookNotificationProvider', {
+        deliveryId,
+        status: response.status,
+        attempts: response.attempts,
+      });
+      return { success: true, messageId: deliveryId, timestamp };
+    } catch (error) {
+      this.logger.error(
+        'Failed to send webhook notification',
+        'WebhookNotificationProvider',
+        error,
+        { deliveryId, subject: options.subject },
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private buildHeaders(deliveryId: string, body: string): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      [WEBHOOK_HEADERS.delivery]: deliveryId,
+      [WEBHOOK_HEADERS.timestamp]: timestamp,
+    };
+
+    const secret = this.configService.get('NOTIFICATION_WEBHOOK_SECRET');
+    if (secret) {
+      const signature = crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      headers[WEBHOOK_HEADERS.signature] = `sha256=${signature}`;
+    }
+    return headers;
+  }
+}
+
+export { WebhookNotificationProvider };
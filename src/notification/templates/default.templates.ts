@@ -0,0 +1,337 @@
+/**
+ * Built-in Handlebars templates, keyed like the files that override them in
+ * NOTIFICATION_TEMPLATE_DIR: `<event>.subject`, `<event>.txt` and
+ * `<event>.html` per event, the `layout.*` wrapped around every body, and the
+ * partials (`destinations.*`, `retention.*`) shared between events.
+ * `{{value}}` is HTML escaped in `.html` templates; `.txt` and `.subject`
+ * templates are not escaped.
+ */
+
+const layoutHtml = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: {{#if (eq severity "error")}}#f44336{{else}}{{brand.color}}{{/if}}; color: white; padding: 10px; text-align: center; }
+    .content { padding: 20px; border: 1px solid #ddd; }
+    .footer { font-size: 12px; color: #777; margin-top: 20px; text-align: center; }
+    .error, .failed { color: #f44336; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
+    th { background-color: #f2f2f2; }
+    pre { background-color: #f5f5f5; padding: 10px; overflow: auto; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      {{#if brand.logoUrl}}<img src="{{brand.logoUrl}}" alt="{{brand.name}}" height="32"><br>{{/if}}
+      <h2>{{title}}</h2>
+    </div>
+    <div class="content">
+{{{body}}}
+{{#if suppressed}}
+      <p><em>{{t "notice.suppressed" count=suppressed.count since=suppressed.since}}</em></p>
+{{/if}}
+    </div>
+    <div class="footer">
+      <p>{{t "footer.html" brand=brand.name}}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+
+const layoutTxt = `{{{body}}}
+{{#if suppressed}}
+
+{{t "notice.suppressed" count=suppressed.count since=suppressed.since}}
+{{/if}}
+
+{{t "footer.text" brand=brand.name}}
+`;
+
+const destinationsTxt = `{{t "destinations.summary" stored=(countWhere destinations "success") total=destinations.length}}
+{{#each destinations}}
+- {{destination}}: {{#if success}}{{#if location}}{{location}}{{else}}{{t "destinations.stored"}}{{/if}}{{else}}{{t "destinations.failed" error=(default error "?")}}{{/if}}
+{{/each}}
+`;
+
+const destinationsHtml = `<p><strong>{{t "destinations.summary" stored=(countWhere destinations "success") total=destinations.length}}</strong></p>
+<ul>
+{{#each destinations}}
+  <li>{{destination}}: {{#if success}}{{#if location}}{{location}}{{else}}{{t "destinations.stored"}}{{/if}}{{else}}<span class="failed">{{t "destinations.failed" error=(default error "?")}}</span>{{/if}}</li>
+{{/each}}
+</ul>
+`;
+
+const retentionTxt = `{{#if retention.dryRun}}{{t "retention.headingDryRun" count=retention.pruned.length}}{{else}}{{t "retention.heading" count=retention.pruned.length}}{{/if}}
+{{t "retention.kept" count=retention.kept.length}}
+{{#each retention.pruned}}
+- {{this}}
+{{/each}}
+{{#if retention.failed.length}}
+{{t "retention.failedHeading" count=retention.failed.length}}
+{{#each retention.failed}}
+- {{backupId}}: {{error}}
+{{/each}}
+{{/if}}
+`;
+
+const retentionHtml = `<p><strong>{{#if retention.dryRun}}{{t "retention.headingDryRun" count=retention.pruned.length}}{{else}}{{t "retention.heading" count=retention.pruned.length}}{{/if}}</strong></p>
+<p>{{t "retention.kept" count=retention.kept.length}}</p>
+{{#if retention.pruned.length}}
+<ul>
+{{#each retention.pruned}}
+  <li>{{this}}</li>
+{{/each}}
+</ul>
+{{/if}}
+{{#if retention.failed.length}}
+<p class="failed">{{t "retention.failedHeading" count=retention.failed.length}}</p>
+<ul>
+{{#each retention.failed}}
+  <li>{{backupId}}: {{error}}</li>
+{{/each}}
+</ul>
+{{/if}}
+`;
+
+const backupSucceededTxt = `{{title}}
+
+{{t "label.backupId"}}: {{backupId}}
+{{t "label.timestamp"}}: {{timestamp}}
+{{t "label.size"}}: {{formatSize size}}
+{{t "label.location"}}: {{default location (t "value.unknown")}}
+{{#if (gt destinations.length 1)}}
+
+{{> destinations}}
+{{/if}}
+{{#if retention}}
+
+{{> retention}}
+{{/if}}
+`;
+
+const backupSucceededHtml = `<p>{{t "backup.succeeded.intro"}}</p>
+<table>
+  <tr><th>{{t "label.property"}}</th><th>{{t "label.value"}}</th></tr>
+  <tr><td>{{t "label.backupId"}}</td><td>{{backupId}}</td></tr>
+  <tr><td>{{t "label.timestamp"}}</td><td>{{timestamp}}</td></tr>
+  <tr><td>{{t "label.size"}}</td><td>{{formatSize size}}</td></tr>
+  <tr><td>{{t "label.location"}}</td><td>{{default location (t "value.unknown")}}</td></tr>
+</table>
+{{#if (gt destinations.length 1)}}
+{{> destinations}}
+{{/if}}
+{{#if retention}}
+{{> retention}}
+{{/if}}
+`;
+
+const backupFailedTxt = `{{title}}
+
+{{t "label.error"}}: {{error}}
+{{t "label.timestamp"}}: {{timestamp}}
+{{#if details}}
+{{t "label.details"}}: {{json details}}
+{{/if}}
+`;
+
+const backupFailedHtml = `<p>{{t "backup.failed.intro"}}</p>
+<p><span class="error">{{t "label.error"}}:</span> {{error}}</p>
+<p><strong>{{t "label.timestamp"}}:</strong> {{timestamp}}</p>
+{{#if details}}
+<p><strong>{{t "label.details"}}:</strong></p>
+<pre>{{json details}}</pre>
+{{/if}}
+<p>{{t "backup.failed.action"}}</p>
+`;
+
+const restoreSucceededTxt = `{{title}}
+
+{{t "label.backupId"}}: {{backupId}}
+{{t "label.timestamp"}}: {{timestamp}}
+{{#if duration}}
+{{t "label.duration"}}: {{formatDuration duration}}
+{{/if}}
+{{#if databases.length}}
+{{t "label.databases"}}: {{join databases ", "}}
+{{/if}}
+{{#if (isNumber documentsRestored)}}
+{{t "label.documentsRestored"}}: {{documentsRestored}}
+{{/if}}
+{{#if documentsFailed}}
+{{t "label.documentsFailed"}}: {{documentsFailed}}
+{{/if}}
+`;
+
+const restoreSucceededHtml = `<p>{{t "restore.succeeded.intro" backupId=backupId}}</p>
+<table>
+  <tr><th>{{t "label.property"}}</th><th>{{t "label.value"}}</th></tr>
+  <tr><td>{{t "label.backupId"}}</td><td>{{backupId}}</td></tr>
+  <tr><td>{{t "label.timestamp"}}</td><td>{{timestamp}}</td></tr>
+{{#if duration}}
+  <tr><td>{{t "label.duration"}}</td><td>{{formatDuration duration}}</td></tr>
+{{/if}}
+{{#if databases.length}}
+  <tr><td>{{t "label.databases"}}</td><td>{{join databases ", "}}</td></tr>
+{{/if}}
+{{#if (isNumber documentsRestored)}}
+  <tr><td>{{t "label.documentsRestored"}}</td><td>{{documentsRestored}}</td></tr>
+{{/if}}
+{{#if documentsFailed}}
+  <tr><td>{{t "label.documentsFailed"}}</td><td class="failed">{{documentsFailed}}</td></tr>
+{{/if}}
+</table>
+`;
+
+const restoreFailedTxt = `{{title}}
+
+{{t "label.backupId"}}: {{backupId}}
+{{t "label.error"}}: {{default error (t "value.unknown")}}
+{{t "label.timestamp"}}: {{timestamp}}
+`;
+
+const restoreFailedHtml = `<p>{{t "restore.failed.intro" backupId=backupId}}</p>
+<p><span class="error">{{t "label.error"}}:</span> {{default error (t "value.unknown")}}</p>
+<p><strong>{{t "label.timestamp"}}:</strong> {{timestamp}}</p>
+`;
+
+const verificationTxt = `{{title}}
+
+{{t "label.backupId"}}: {{backupId}}
+{{t "label.timestamp"}}: {{timestamp}}
+{{t "label.sha256"}}: {{sha256}}
+{{#unless valid}}
+
+{{t "verification.failed.checks"}}
+{{#each checks}}
+{{#if (eq status "failed")}}
+- {{name}}: {{default message (t "status.failed")}}
+{{/if}}
+{{/each}}
+{{/unless}}
+`;
+
+const verificationHtml = `<p>{{#if valid}}{{t "verification.succeeded.intro" backupId=backupId}}{{else}}{{t "verification.failed.intro" backupId=backupId}}{{/if}}</p>
+<p><strong>{{t "label.timestamp"}}:</strong> {{timestamp}}</p>
+<table>
+  <tr><th>{{t "label.check"}}</th><th>{{t "label.status"}}</th><th>{{t "label.details"}}</th></tr>
+{{#each checks}}
+  <tr><td>{{name}}</td><td class="{{status}}">{{t (concat "status." status)}}</td><td>{{message}}</td></tr>
+{{/each}}
+</table>
+{{#unless valid}}
+<p>{{t "verification.failed.action"}}</p>
+{{/unless}}
+`;
+
+const digestTxt = `{{title}}
+
+{{t "backup.digest.intro" count=count since=since}}
+
+{{#each entries}}
+- {{timestamp}} {{t (concat "event." type)}}{{#if job}} [{{job}}]{{/if}}{{#if data.backupId}}: {{data.backupId}}{{/if}}{{#if data.size}} ({{formatSize data.size}}){{/if}}
+{{/each}}
+{{#if dropped}}
+{{t "backup.digest.dropped" count=dropped}}
+{{/if}}
+`;
+
+const digestHtml = `<p>{{t "backup.digest.intro" count=count since=since}}</p>
+<table>
+  <tr><th>{{t "label.timestamp"}}</th><th>{{t "label.event"}}</th><th>{{t "label.job"}}</th><th>{{t "label.backupId"}}</th><th>{{t "label.size"}}</th></tr>
+{{#each entries}}
+  <tr><td>{{timestamp}}</td><td>{{t (concat "event." type)}}</td><td>{{job}}</td><td>{{data.backupId}}</td><td>{{#if data.size}}{{formatSize data.size}}{{/if}}</td></tr>
+{{/each}}
+</table>
+{{#if dropped}}
+<p>{{t "backup.digest.dropped" count=dropped}}</p>
+{{/if}}
+`;
+
+const retentionFailedTxt = `{{title}}
+
+{{t "retention.failed.intro"}}
+{{#if error}}
+{{t "label.error"}}: {{error}}
+{{/if}}
+{{#if retention}}
+
+{{> retention}}
+{{/if}}
+`;
+
+const retentionFailedHtml = `<p>{{t "retention.failed.intro"}}</p>
+{{#if error}}
+<p><span class="error">{{t "label.error"}}:</span> {{error}}</p>
+{{/if}}
+{{#if retention}}
+{{> retention}}
+{{/if}}
+`;
+
+const oplogGapTxt = `{{title}}
+
+{{t "oplog.gap.intro" backupId=backupId since=since}}
+{{#if job}}
+{{t "label.job"}}: {{job}}
+{{/if}}
+
+{{t "oplog.gap.action"}}
+`;
+
+const oplogGapHtml = `<p>{{t "oplog.gap.intro" backupId=backupId since=since}}</p>
+{{#if job}}
+<p><strong>{{t "label.job"}}:</strong> {{job}}</p>
+{{/if}}
+<p class="error">{{t "oplog.gap.action"}}</p>
+`;
+
+export const defaultTemplates: Record<string, string> = {
+  'layout.html': layoutHtml,
+  'layout.txt': layoutTxt,
+  'destinations.html': destinationsHtml,
+  'destinations.txt': destinationsTxt,
+  'retention.html': retentionHtml,
+  'retention.txt': retentionTxt,
+
+  'backup.succeeded.subject': '{{t "backup.succeeded.subject" backupId=backupId}}',
+  'backup.succeeded.txt': backupSucceededTxt,
+  'backup.succeeded.html': backupSucceededHtml,
+
+  'backup.failed.subject': '{{t "backup.failed.subject"}}',
+  'backup.failed.txt': backupFailedTxt,
+  'backup.failed.html': backupFailedHtml,
+
+  'backup.digest.subject': '{{t "backup.digest.subject" count=count}}',
+  'backup.digest.txt': digestTxt,
+  'backup.digest.html': digestHtml,
+
+  'restore.succeeded.subject': '{{t "restore.succeeded.subject" backupId=backupId}}',
+  'restore.succeeded.txt': restoreSucceededTxt,
+  'restore.succeeded.html': restoreSucceededHtml,
+
+  'restore.failed.subject': '{{t "restore.failed.subject" backupId=backupId}}',
+  'restore.failed.txt': restoreFailedTxt,
+  'restore.failed.html': restoreFailedHtml,
+
+  'verification.succeeded.subject': '{{t "verification.succeeded.subject" backupId=backupId}}',
+  'verification.succeeded.txt': verificationTxt,
+  'verification.succeeded.html': verificationHtml,
+
+  'verification.failed.subject': '{{t "verification.failed.subject" backupId=backupId}}',
+  'verification.failed.txt': verificationTxt,
+  'verification.failed.html': verificationHtml,
+
+  'retention.failed.subject': '{{t "retention.failed.subject"}}',
+  'retention.failed.txt': retentionFailedTxt,
+  'retention.failed.html': retentionFailedHtml,
+
+  'oplog.gap.subject': '{{t "oplog.gap.subject" backupId=backupId}}',
+  'oplog.gap.txt': oplogGapTxt,
+  'oplog.gap.html': oplogGapHtml,
+};
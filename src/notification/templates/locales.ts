@@ -0,0 +1,187 @@
+/** Strings by key; `{name}` placeholders are filled from the `t` helper's arguments */
+export type LocaleStrings = Record<string, string>;
+
+const en: LocaleStrings = {
+  'footer.text': 'This is an automated message from {brand}.',
+  'footer.html': 'This is an automated message from {brand}. Please do not reply to this email.',
+  'value.unknown': 'Unknown',
+
+  'label.property': 'Property',
+  'label.value': 'Value',
+  'label.backupId': 'Backup ID',
+  'label.timestamp': 'Timestamp',
+  'label.size': 'Size',
+  'label.location': 'Location',
+  'label.error': 'Error',
+  'label.details': 'Details',
+  'label.duration': 'Duration',
+  'label.databases': 'Databases',
+  'label.documentsRestored': 'Documents restored',
+  'label.documentsFailed': 'Documents failed',
+  'label.sha256': 'SHA-256',
+  'label.check': 'Check',
+  'label.status': 'Status',
+  'label.event': 'Event',
+  'label.job': 'Job',
+
+  'event.backup.succeeded': 'Backup',
+  'event.restore.succeeded': 'Restore',
+  'event.verification.succeeded': 'Verification',
+
+  'notice.suppressed':
+    'This notification repeated {count} more time(s) since {since}; the repeats were not sent.',
+
+  'status.passed': 'passed',
+  'status.failed': 'failed',
+  'status.skipped': 'skipped',
+
+  'backup.succeeded.subject': 'Backup Successful: {backupId}',
+  'backup.succeeded.title': 'Backup Completed Successfully',
+  'backup.succeeded.intro': 'The backup has been completed and stored.',
+
+  'backup.failed.subject': 'Backup Failed',
+  'backup.failed.title': 'Backup Failed',
+  'backup.failed.intro': 'The backup operation has failed.',
+  'backup.failed.action': 'Please check the logs for more information and take appropriate action.',
+
+  'backup.digest.subject': 'Daily Summary: {count} successful operation(s)',
+  'backup.digest.title': 'Daily Summary',
+  'backup.digest.intro': '{count} successful operation(s) since {since}:',
+  'backup.digest.dropped': '{count} more not listed.',
+
+  'restore.succeeded.subject': 'Restore Completed: {backupId}',
+  'restore.succeeded.title': 'Restore Completed Successfully',
+  'restore.succeeded.intro': 'Backup {backupId} has been restored.',
+
+  'restore.failed.subject': 'Restore Failed: {backupId}',
+  'restore.failed.title': 'Restore Failed',
+  'restore.failed.intro': 'Backup {backupId} could not be restored.',
+
+  'verification.succeeded.subject': 'Backup Verified: {backupId}',
+  'verification.succeeded.title': 'Backup Verified',
+  'verification.succeeded.intro': 'The stored backup {backupId} passed verification.',
+
+  'verification.failed.subject': 'Backup Verification Failed: {backupId}',
+  'verification.failed.title': 'Backup Verification Failed',
+  'verification.failed.intro': 'The stored backup {backupId} did not pass verification.',
+  'verification.failed.checks': 'Failed checks:',
+  'verification.failed.action':
+    'Do not rely on this backup for a restore until the cause is understood.',
+
+  'retention.failed.subject': 'Retention Failed',
+  'retention.failed.title': 'Retention Failed',
+  'retention.failed.intro':
+    'Old backups could not be pruned. Pruning is retried after the next successful backup.',
+
+  'oplog.gap.subject': 'Oplog Gap: {backupId}',
+  'oplog.gap.title': 'Oplog Gap Detected',
+  'oplog.gap.intro':
+    'Oplog entries written after {since} were lost before they could be captured for backup {backupId}.',
+  'oplog.gap.action':
+    'Point-in-time restores past that time are not possible until the next backup. Capture the oplog more often or enlarge it.',
+
+  'destinations.summary': 'Destinations: stored in {stored} of {total}',
+  'destinations.stored': 'stored',
+  'destinations.failed': 'FAILED ({error})',
+
+  'retention.heading': 'Retention: {count} backup(s) pruned',
+  'retention.headingDryRun': 'Retention (dry run): {count} backup(s) would be pruned',
+  'retention.kept': 'Kept: {count}',
+  'retention.failedHeading': 'Failed to prune: {count}',
+};
+
+const de: LocaleStrings = {
+  'footer.text': 'Dies ist eine automatische Nachricht von {brand}.',
+  'footer.html':
+    'Dies ist eine automatische Nachricht von {brand}. Bitte antworten Sie nicht auf diese E-Mail.',
+  'value.unknown': 'Unbekannt',
+
+  'label.property': 'Eigenschaft',
+  'label.value': 'Wert',
+  'label.backupId': 'Sicherungs-ID',
+  'label.timestamp': 'Zeitpunkt',
+  'label.size': 'Größe',
+  'label.location': 'Speicherort',
+  'label.error': 'Fehler',
+  'label.details': 'Details',
+  'label.duration': 'Dauer',
+  'label.databases': 'Datenbanken',
+  'label.documentsRestored': 'Wiederhergestellte Dokumente',
+  'label.documentsFailed': 'Fehlgeschlagene Dokumente',
+  'label.sha256': 'SHA-256',
+  'label.check': 'Prüfung',
+  'label.status': 'Status',
+  'label.event': 'Ereignis',
+  'label.job': 'Auftrag',
+
+  'event.backup.succeeded': 'Sicherung',
+  'event.restore.succeeded': 'Wiederherstellung',
+  'event.verification.succeeded': 'Prüfung',
+
+  'notice.suppressed':
+    'Diese Benachrichtigung wiederholte sich seit {since} {count} weitere Mal(e); die Wiederholungen wurden nicht gesendet.',
+
+  'status.passed': 'bestanden',
+  'status.failed': 'fehlgeschlagen',
+  'status.skipped': 'übersprungen',
+
+  'backup.succeeded.subject': 'Sicherung erfolgreich: {backupId}',
+  'backup.succeeded.title': 'Sicherung erfolgreich abgeschlossen',
+  'backup.succeeded.intro': 'Die Sicherung wurde erstellt und gespeichert.',
+
+  'backup.failed.subject': 'Sicherung fehlgeschlagen',
+  'backup.failed.title': 'Sicherung fehlgeschlagen',
+  'backup.failed.intro': 'Die Sicherung ist fehlgeschlagen.',
+  'backup.failed.action':
+    'Bitte prüfen Sie die Protokolle auf weitere Informationen und ergreifen Sie geeignete Maßnahmen.',
+
+  'backup.digest.subject': 'Tägliche Zusammenfassung: {count} erfolgreiche Vorgänge',
+  'backup.digest.title': 'Tägliche Zusammenfassung',
+  'backup.digest.intro': '{count} erfolgreiche Vorgänge seit {since}:',
+  'backup.digest.dropped': '{count} weitere nicht aufgeführt.',
+
+  'restore.succeeded.subject': 'Wiederherstellung abgeschlossen: {backupId}',
+  'restore.succeeded.title': 'Wiederherstellung erfolgreich abgeschlossen',
+  'restore.succeeded.intro': 'Die Sicherung {backupId} wurde wiederhergestellt.',
+
+  'restore.failed.subject': 'Wiederherstellung fehlgeschlagen: {backupId}',
+  'restore.failed.title': 'Wiederherstellung fehlgeschlagen',
+  'restore.failed.intro': 'Die Sicherung {backupId} konnte nicht wiederhergestellt werden.',
+
+  'verification.succeeded.subject': 'Sicherung geprüft: {backupId}',
+  'verification.succeeded.title': 'Sicherung geprüft',
+  'verification.succeeded.intro':
+    'Die gespeicherte Sicherung {backupId} hat die Prüfung bestanden.',
+
+  'verification.failed.subject': 'Prüfung der Sicherung fehlgeschlagen: {backupId}',
+  'verification.failed.title': 'Prüfung der Sicherung fehlgeschlagen',
+  'verification.failed.intro':
+    'Die gespeicherte Sicherung {backupId} hat die Prüfung nicht bestanden.',
+  'verification.failed.checks': 'Fehlgeschlagene Prüfungen:',
+  'verification.failed.action':
+    'Verlassen Sie sich für eine Wiederherstellung nicht auf diese Sicherung, bis die Ursache geklärt ist.',
+
+  'retention.failed.subject': 'Aufbewahrung fehlgeschlagen',
+  'retention.failed.title': 'Aufbewahrung fehlgeschlagen',
+  'retention.failed.intro':
+    'Alte Sicherungen konnten nicht gelöscht werden. Nach der nächsten erfolgreichen Sicherung wird es erneut versucht.',
+
+  'oplog.gap.subject': 'Oplog-Lücke: {backupId}',
+  'oplog.gap.title': 'Oplog-Lücke erkannt',
+  'oplog.gap.intro':
+    'Nach {since} geschriebene Oplog-Einträge gingen verloren, bevor sie für die Sicherung {backupId} erfasst werden konnten.',
+  'oplog.gap.action':
+    'Wiederherstellungen auf einen Zeitpunkt danach sind erst ab der nächsten Sicherung möglich. Erfassen Sie das Oplog häufiger oder vergrößern Sie es.',
+
+  'destinations.summary': 'Ziele: gespeichert in {stored} von {total}',
+  'destinations.stored': 'gespeichert',
+  'destinations.failed': 'FEHLGESCHLAGEN ({error})',
+
+  'retention.heading': 'Aufbewahrung: {count} Sicherung(en) gelöscht',
+  'retention.headingDryRun': 'Aufbewahrung (Probelauf): {count} Sicherung(en) würden gelöscht',
+  'retention.kept': 'Behalten: {count}',
+  'retention.failedHeading': 'Löschen fehlgeschlagen: {count}',
+};
+
+/** Built-in locales; English is the fallback for keys another locale lacks */
+export const defaultLocales: Record<string, LocaleStrings> = { en, de };
@@ -0,0 +1,205 @@
+import { singleton, inject } from 'tsyringe';
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { z } from 'zod';
+import { defaultTemplates } from './default.templates';
+import { LocaleStrings, defaultLocales } from './locales';
+import { NotificationEvent } from '../providers/notification.provider';
+import { ConfigService } from '../../config/config.service';
+import { configSchema } from '../../config/config.schema';
+import { ConfigurationError, NotificationError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+const FALLBACK_LOCALE = 'en';
+const PARTIALS = ['destinations', 'retention'];
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type Format = 'html' | 'txt';
+
+/**
+ * Renders notifications from Handlebars templates: a subject, a text body and
+ * an HTML body per event type, each body wrapped in the shared layout. Any
+ * template can be replaced by a file in NOTIFICATION_TEMPLATE_DIR, and any
+ * string by `locales/<locale>.json` there.
+ */
+@singleton()
+class NotificationTemplateService {
+  // Separate environments, so partials resolve to the HTML or text variant
+  private readonly environments: Record<Format, typeof Handlebars> = {
+    html: Handlebars.create(),
+    txt: Handlebars.create(),
+  };
+  private readonly compiled = new Map<string, Handlebars.TemplateDelegate>();
+  private readonly locales = new Map<string, LocaleStrings>();
+  private partialsRegistered = false;
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {
+    Object.values(this.environments).forEach(environment => this.registerHelpers(environment));
+  }
+
+  render(event: NotificationEvent): RenderedNotification {
+    const locale = this.configService.get('NOTIFICATION_LOCALE');
+    const context = {
+      ...event.data,
+      locale,
+      severity: event.severity,
+      brand: {
+        name: this.configService.get('NOTIFICATION_BRAND_NAME'),
+        color: this.configService.get('NOTIFICATION_BRAND_COLOR'),
+        logoUrl: this.configService.get('NOTIFICATION_BRAND_LOGO_URL'),
+      },
+      title: this.translate(locale, `${event.type}.title`),
+    };
+
+    const subject = this.template(`${event.type}.subject`, 'txt')(context);
+    const text = this.template(`${event.type}.txt`, 'txt')(context);
+    const html = this.template(`${event.type}.html`, 'html')(context);
+    return {
+      // A template spilling onto a second line must not add headers
+      subject: subject.replace(/\s+/g, ' ').trim(),
+      text: this.template('layout.txt', 'txt')({ ...context, body: text.trim() }).trim(),
+      html: this.template('layout.html', 'html')({ ...context, body: html }).trim(),
+    };
+  }
+
+  /** The string for `key` in the locale, falling back to English and then to the key itself */
+  translate(locale: string, key: string, params: Record<string, unknown> = {}): string {
+    const text = this.getLocale(locale)[key] ?? this.getLocale(FALLBACK_LOCALE)[key] ?? key;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      params[name] === undefined ? placeholder : String(params[name]),
+    );
+  }
+
+  private template(name: string, format: Format): Handlebars.TemplateDelegate {
+    this.registerPartials();
+    const key = `${format}:${name}`;
+    let compiled = this.compiled.get(key);
+    if (!compiled) {
+      try {
+        // Text is never escaped: `&amp;` in a plain-text email or a subject is just noise
+        compiled = this.environments[format].compile(this.loadTemplate(name), {
+          noEscape: format === 'txt',
+        });
+      } catch (error) {
+        throw new NotificationError(`Invalid notification template: ${name}`, { cause: error });
+      }
+      this.compiled.set(key, compiled);
+    }
+    return compiled;
+  }
+
+  private registerPartials(): void {
+    if (this.partialsRegistered) return;
+    for (const format of ['html', 'txt'] as const) {
+      for (const partial of PARTIALS) {
+        this.environments[format].registerPartial(
+          partial,
+          this.loadTemplate(`${partial}.${format}`),
+        );
+      }
+    }
+    this.partialsRegistered = true;
+  }
+
+  private loadTemplate(name: string): string {
+    const override = this.readOverride(`${name}.hbs`);
+    if (override !== undefined) {
+      this.logger.debug('Using notification template override', 'NotificationTemplateService', {
+        template: name,
+      });
+      return override;
+    }
+
+    const template = defaultTemplates[name];
+    if (template === undefined) {
+      throw new NotificationError(`Notification template not found: ${name}`);
+    }
+    return template;
+  }
+
+  private getLocale(locale: string): LocaleStrings {
+    let strings = this.locales.get(locale);
+    if (!strings) {
+      const override = this.readOverride(path.join('locales', `${locale}.json`));
+      let overrides: LocaleStrings = {};
+      if (override !== undefined) {
+        const result = z.record(z.string()).safeParse(this.parseJson(override, locale));
+        if (!result.success) {
+          throw new ConfigurationError(`Locale file for ${locale} must map keys to strings`);
+        }
+        overrides = result.data;
+      }
+      strings = { ...defaultLocales[locale], ...overrides };
+      this.locales.set(locale, strings);
+    }
+    return strings;
+  }
+
+  private parseJson(contents: string, locale: string): unknown {
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      throw new ConfigurationError(`Locale file for ${locale} is not valid JSON`, { cause: error });
+    }
+  }
+
+  private readOverride(relativePath: string): string | undefined {
+    const directory = this.configService.get('NOTIFICATION_TEMPLATE_DIR');
+    if (!directory) return undefined;
+
+    const filePath = path.join(directory, relativePath);
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw new ConfigurationError(`Failed to read notification template: ${filePath}`, {
+        cause: error,
+      });
+    }
+  }
+
+  private registerHelpers(environment: typeof Handlebars): void {
+    const localeOf = (options: Handlebars.HelperOptions): string =>
+      options.data?.root?.locale ?? FALLBACK_LOCALE;
+
+    environment.registerHelper('t', (key: string, options: Handlebars.HelperOptions) =>
+      this.translate(localeOf(options), key, options.hash),
+    );
+    environment.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+    environment.registerHelper('gt', (a: unknown, b: unknown) => Number(a) > Number(b));
+    environment.registerHelper('isNumber', (value: unknown) => typeof value === 'number');
+    environment.registerHelper('default', (value: unknown, fallback: unknown) =>
+      value === undefined || value === null || value === '' ? fallback : value,
+    );
+    environment.registerHelper('concat', (...args: unknown[]) => args.slice(0, -1).join(''));
+    environment.registerHelper('join', (values: unknown, separator: unknown) =>
+      Array.isArray(values) ? values.join(typeof separator === 'string' ? separator : ', ') : '',
+    );
+    environment.registerHelper('json', (value: unknown) => JSON.stringify(value, null, 2));
+    environment.registerHelper('countWhere', (values: unknown, property: string) =>
+      Array.isArray(values)
+        ? values.filter(value => (value as Record<string, unknown>)?.[property]).length
+        : 0,
+    );
+    environment.registerHelper('formatSize', (bytes: unknown, options: Handlebars.HelperOptions) =>
+      typeof bytes === 'number' && bytes > 0
+        ? `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+        : this.translate(localeOf(options), 'value.unknown'),
+    );
+    environment.registerHelper('formatDuration', (ms: unknown) =>
+      typeof ms === 'number' ? `${(ms / 1000).toFixed(1)} s` : '',
+    );
+  }
+}
+
+export { NotificationTemplateService };
@@ -0,0 +1,172 @@
+import { singleton, inject } from 'tsyringe';
+import { z } from 'zod';
+import { BackupService } from '../backup/backup.service';
+import { BackupInfo } from '../backup/providers/backup.provider';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { Logger } from '../utils/logger/logger';
+
+export interface RetentionPolicy {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+}
+
+export interface RetentionFailure {
+  backupId: string;
+  error: string;
+}
+
+export interface RetentionResult {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  kept: string[];
+  pruned: string[];
+  failed: RetentionFailure[];
+  timestamp: string;
+}
+
+type BucketKey = (date: Date) => string;
+
+const dayKey: BucketKey = date => date.toISOString().slice(0, 10);
+
+const monthKey: BucketKey = date => date.toISOString().slice(0, 7);
+
+const isoWeekKey: BucketKey = date => {
+  // ISO weeks belong to the year of their Thursday
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+@singleton()
+class RetentionService {
+  constructor(
+    @inject(BackupService) private readonly backupService: BackupService,
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('RETENTION_ENABLED');
+  }
+
+  getPolicy(): RetentionPolicy {
+    return {
+      keepLast: this.configService.get('RETENTION_KEEP_LAST'),
+      keepDaily: this.configService.get('RETENTION_KEEP_DAILY'),
+      keepWeekly: this.configService.get('RETENTION_KEEP_WEEKLY'),
+      keepMonthly: this.configService.get('RETENTION_KEEP_MONTHLY'),
+    };
+  }
+
+  /**
+   * Prunes the backups of one job, or those taken outside any job when `job` is
+   * omitted, so jobs sharing a bucket never prune each other's backups.
+   */
+  async applyPolicy(
+    policy: RetentionPolicy = this.getPolicy(),
+    dryRun = this.configService.get('RETENTION_DRY_RUN'),
+    job?: string,
+  ): Promise<RetentionResult> {
+    const result: RetentionResult = {
+      dryRun,
+      policy,
+      kept: [],
+      pruned: [],
+      failed: [],
+      timestamp: new Date().toISOString(),
+    };
+
+    if (!policy.keepLast && !policy.keepDaily && !policy.keepWeekly && !policy.keepMonthly) {
+      // An empty policy would select every backup for deletion
+      this.logger.warn('Retention policy keeps nothing, skipping pruning', 'RetentionService');
+      return result;
+    }
+
+    const backups = (await this.backupService.listBackups()).filter(
+      backup => backup.job === job,
+    );
+    const keep = this.selectBackupsToKeep(backups, policy);
+
+    for (const backup of backups) {
+      if (keep.has(backup.backupId)) {
+        result.kept.push(backup.backupId);
+        continue;
+      }
+
+      if (dryRun) {
+        result.pruned.push(backup.backupId);
+        continue;
+      }
+
+      try {
+        await this.backupService.deleteBackup(backup.backupId);
+        result.pruned.push(backup.backupId);
+      } catch (error) {
+        this.logger.error('Failed to prune backup', 'RetentionService', error, {
+          backupId: backup.backupId,
+        });
+        result.failed.push({
+          backupId: backup.backupId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.logger.info('Retention policy applied', 'RetentionService', {
+      job,
+      dryRun,
+      policy,
+      kept: result.kept.length,
+      pruned: result.pruned.length,
+      failed: result.failed.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Grandfather-father-son selection: walking from newest to oldest, the first
+   * backup seen in each of the most recent N days/weeks/months is kept. Periods
+   * without backups don't count, so a stalled schedule never ages out old data.
+   */
+  private selectBackupsToKeep(backups: BackupInfo[], policy: RetentionPolicy): Set<string> {
+    const newestFirst = backups
+      .filter(backup => !Number.isNaN(Date.parse(backup.timestamp)))
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+
+    const keep = new Set(newestFirst.slice(0, policy.keepLast).map(backup => backup.backupId));
+    const rules: [number, BucketKey][] = [
+      [policy.keepDaily, dayKey],
+      [policy.keepWeekly, isoWeekKey],
+      [policy.keepMonthly, monthKey],
+    ];
+
+    for (const [limit, bucketKey] of rules) {
+      const seen = new Set<string>();
+      for (const backup of newestFirst) {
+        if (seen.size >= limit) break;
+        const bucket = bucketKey(new Date(backup.timestamp));
+        if (seen.has(bucket)) continue;
+        seen.add(bucket);
+        keep.add(backup.backupId);
+      }
+    }
+
+    // Never prune what we can't date
+    for (const backup of backups) {
+      if (Number.isNaN(Date.parse(backup.timestamp))) keep.add(backup.backupId);
+    }
+
+    return keep;
+  }
+}
+
+export { RetentionService };
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/** Becomes part of the storage key, so it is kept to a single path segment */
+const keySegment = (label: string) =>
+  z
+    .string()
+    .regex(/^[\w.-]+$/, `${label} may only contain letters, digits, "_", "-" and "."`)
+    .refine(value => value !== '.' && value !== '..', `${label} may not be "." or ".."`);
+
+/** Body of `POST /backups`; every field is optional */
+const backupOptionsSchema = z
+  .object({
+    name: keySegment('Name').optional(),
+    /** Names the backup when `name` is omitted, in place of the current time */
+    timestamp: keySegment('Timestamp').optional(),
+    /** Names from STORAGE_DESTINATIONS; every destination when omitted */
+    destinations: z.array(z.string().min(1)).nonempty().optional(),
+    compress: z.boolean().optional(),
+    /** Runs a job from the jobs file, with the fields above overriding its settings */
+    job: z.string().min(1).optional(),
+  })
+  .strict();
+
+/** Body of `POST /backups/{id}/restore` */
+const restoreOptionsSchema = z
+  .object({
+    targetLocation: z.string().min(1).optional(),
+    drop: z.boolean().optional(),
+    /** Replays the backup's oplog up to this time; MongoDB backups in oplog mode only */
+    pointInTime: z.string().datetime({ offset: true }).optional(),
+  })
+  .strict();
+
+export { backupOptionsSchema, restoreOptionsSchema };
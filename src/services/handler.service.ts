@@ -1,101 +1,563 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { StatusCodes } from 'http-status-codes';
 import { singleton, inject } from 'tsyringe';
-import { MongoBackupProvider } from '../backup/providers/mongo.backup.provider';
-import { BackupError, ErrorHandler } from '../error';
+import { z } from 'zod';
+import { BackupService } from '../backup/backup.service';
+import { AuthService } from '../auth/auth.service';
+import { ApiScope } from '../auth/api-key.schema';
+import { BackupError, ErrorHandler, NotFoundError, ValidationError } from '../error';
 import { Logger } from '../utils/logger/logger';
 import { NotificationService } from '../notification';
-import { BackupResult } from '../backup/providers/backup.provider';
+import {
+  BackupOptions,
+  BackupResult,
+  OplogCaptureResult,
+  RestoreResult,
+} from '../backup/providers/backup.provider';
+import { formatOplogTimestamp, oplogTimestampToIso } from '../backup/oplog.inspector';
+import { RetentionResult, RetentionService } from '../retention/retention.service';
+import { StorageService } from '../storage/storage.service';
+import { JobService, ScheduledJobEvent } from '../job/job.service';
+import { BackupJob } from '../job/job.schema';
+import { backupOptionsSchema, restoreOptionsSchema } from './handler.schemas';
+
+export type HandlerEvent = APIGatewayProxyEventV2 | ScheduledJobEvent;
+
+interface Route {
+  method: string;
+  scope: ApiScope;
+  /** Matched against the request path; the first capture group is the backup ID */
+  pattern: RegExp;
+  handle(event: APIGatewayProxyEventV2, id: string): Promise<APIGatewayProxyResult>;
+}
+
+/** Outcome of one backup, with failures captured instead of thrown */
+interface BackupRun {
+  backupResult?: BackupResult;
+  retention?: RetentionResult;
+  error?: unknown;
+}
+
+interface JobRunResult {
+  job: string;
+  success: boolean;
+  backupResult?: BackupResult;
+  retention?: RetentionResult;
+  error?: string;
+}
+
+interface OplogRunResult {
+  job: string;
+  success: boolean;
+  captureResult?: OplogCaptureResult;
+  error?: string;
+}
 
 @singleton()
 export class HandlerService {
+  // Backup IDs contain slashes, so `{id}` spans the rest of the path
+  private readonly routes: Route[] = [
+    {
+      method: 'POST',
+      scope: 'backup:create',
+      pattern: /^\/backups\/?$/,
+      handle: async event => {
+        const { job, ...options } = this.parseBody(event, backupOptionsSchema);
+        if (options.destinations) this.checkDestinations(options.destinations);
+        return this.runBackup(
+          options,
+          StatusCodes.CREATED,
+          job ? this.jobService.getJob(job) : undefined,
+        );
+      },
+    },
+    {
+      method: 'GET',
+      scope: 'backup:list',
+      pattern: /^\/backups\/?$/,
+      handle: async () =>
+        this.createResponse(StatusCodes.OK, { backups: await this.backupService.listBackups() }),
+    },
+    {
+      method: 'POST',
+      scope: 'backup:restore',
+      pattern: /^\/backups\/(.+)\/restore$/,
+      handle: (event, id) => this.restoreBackup(id, event),
+    },
+    {
+      method: 'GET',
+      scope: 'backup:list',
+      pattern: /^\/backups\/(.+)$/,
+      handle: async (_event, id) =>
+        this.createResponse(StatusCodes.OK, { backup: await this.backupService.getBackup(id) }),
+    },
+    {
+      method: 'DELETE',
+      scope: 'backup:delete',
+      pattern: /^\/backups\/(.+)$/,
+      handle: async (_event, id) => {
+        await this.backupService.deleteBackup(id);
+        return this.createResponse(StatusCodes.NO_CONTENT);
+      },
+    },
+  ];
+
   constructor(
-    @inject(MongoBackupProvider) private readonly backupProvider: MongoBackupProvider,
+    @inject(BackupService) private readonly backupService: BackupService,
+    @inject(AuthService) private readonly authService: AuthService,
     @inject(ErrorHandler) private readonly errorHandler: ErrorHandler,
     @inject(Logger) private readonly logger: Logger,
-    @inject(NotificationService) private readonly notificationService: NotificationService
+    @inject(NotificationService) private readonly notificationService: NotificationService,
+    @inject(RetentionService) private readonly retentionService: RetentionService,
+    @inject(JobService) private readonly jobService: JobService,
+    @inject(StorageService) private readonly storageService: StorageService,
   ) {}
 
-  async processEvent(
-    event?: APIGatewayProxyEventV2,
-    _context?: Context,
-  ): Promise<APIGatewayProxyResult> {
+  /**
+   * API Gateway requests are routed to the matching backup operation; any other
+   * invocation, such as an EventBridge schedule, runs the selected backup jobs,
+   * or takes a single backup when no jobs file is configured. Scheduled runs
+   * then send the notification digests that are due. An `oplog` event captures
+   * the oplog of the selected jobs instead of backing them up.
+   */
+  async processEvent(event?: HandlerEvent, _context?: Context): Promise<APIGatewayProxyResult> {
+    if (this.isHttpRequest(event)) {
+      return this.routeRequest(event);
+    }
+    if (event?.digest || event?.detail?.digest) {
+      return this.sendDigests(true);
+    }
+    if (event?.oplog || event?.detail?.oplog) {
+      return this.runOplogCaptures(event);
+    }
+
+    const response = this.jobService.isConfigured()
+      ? await this.runScheduledJobs(event)
+      : await this.runBackup({}, StatusCodes.OK);
+    await this.sendDigests();
+    return response;
+  }
+
+  private isHttpRequest(event?: HandlerEvent): event is APIGatewayProxyEventV2 {
+    return Boolean(event && 'requestContext' in event && event.requestContext?.http);
+  }
+
+  private async routeRequest(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResult> {
+    const method = event.requestContext.http.method.toUpperCase();
+    const requestPath = this.getRequestPath(event);
+    this.logger.info('Handling API request', 'HandlerService', { method, path: requestPath });
+
     try {
-      const backupResult = await this.performBackup();
-      
-      if (!backupResult.success) {
-        return this.handleFailedBackup(backupResult);
+      // Before routing, so unauthenticated callers can't probe which routes exist
+      const client = await this.authService.authenticate(event);
+
+      for (const route of this.routes) {
+        if (route.method !== method) continue;
+        const match = route.pattern.exec(requestPath);
+        if (!match) continue;
+        this.authService.authorize(client, route.scope);
+        const id = match[1] ? this.decodeId(match[1]) : '';
+        if (id) this.logger.bindFields({ backupId: id });
+        return await route.handle(event, id);
       }
-      
-      await this.notifyBackupSuccess(backupResult);
-      return this.createSuccessResponse(backupResult, event);
+
+      throw new NotFoundError(`Route not found: ${method} ${requestPath}`, {
+        details: { method, path: requestPath },
+      });
+    } catch (error) {
+      return this.errorHandler.handleError(error);
+    }
+  }
+
+  /** Path relative to the API, without the stage prefix of a named stage */
+  private getRequestPath(event: APIGatewayProxyEventV2): string {
+    const { stage } = event.requestContext;
+    const rawPath = event.rawPath || event.requestContext.http.path;
+    if (stage && stage !== '$default' && rawPath.startsWith(`/${stage}/`)) {
+      return rawPath.slice(stage.length + 1);
+    }
+    return rawPath;
+  }
+
+  private decodeId(encoded: string): string {
+    try {
+      return decodeURIComponent(encoded);
+    } catch (error) {
+      throw new ValidationError(`Invalid backup ID: ${encoded}`, { cause: error });
+    }
+  }
+
+  private parseBody<T extends z.ZodTypeAny>(event: APIGatewayProxyEventV2, schema: T): z.infer<T> {
+    const raw = event.body
+      ? event.isBase64Encoded
+        ? Buffer.from(event.body, 'base64').toString()
+        : event.body
+      : '{}';
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new ValidationError('Request body is not valid JSON', { cause: error });
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      throw new ValidationError('Invalid request body', {
+        details: { issues: result.error.issues },
+      });
+    }
+    return result.data;
+  }
+
+  /** A caller naming a destination that doesn't exist made a mistake, not the configuration */
+  private checkDestinations(names: string[]): void {
+    const configured = this.storageService.getTargets().map(target => target.name);
+    const unknown = names.filter(name => !configured.includes(name));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown storage destinations: ${unknown.join(', ')}`, {
+        details: { unknown, configured },
+      });
+    }
+  }
+
+  private async runBackup(
+    options: BackupOptions,
+    statusCode: number,
+    job?: BackupJob,
+  ): Promise<APIGatewayProxyResult> {
+    const run = await this.executeBackup(options, job);
+    if (run.error) {
+      return this.errorHandler.handleError(run.error);
+    }
+    return this.createResponse(statusCode, {
+      message: 'Backup created successfully',
+      backupResult: run.backupResult,
+      retention: run.retention,
+    });
+  }
+
+  /** Runs the selected jobs one after another and reports on each of them */
+  private async runScheduledJobs(event?: ScheduledJobEvent): Promise<APIGatewayProxyResult> {
+    let jobs: BackupJob[];
+    try {
+      jobs = this.jobService.selectJobs(event);
+    } catch (error) {
+      await this.notifyUnexpectedError(error);
+      return this.errorHandler.handleError(error);
+    }
+
+    this.logger.info('Running backup jobs', 'HandlerService', {
+      jobs: jobs.map(job => job.name),
+    });
+
+    const results: JobRunResult[] = [];
+    // Sequentially, so the dumps don't compete for the function's memory and bandwidth
+    for (const job of jobs) {
+      const run = await this.executeBackup({}, job);
+      results.push({
+        job: job.name,
+        success: !run.error,
+        backupResult: run.backupResult,
+        retention: run.retention,
+        error: run.error
+          ? run.error instanceof Error
+            ? run.error.message
+            : String(run.error)
+          : undefined,
+      });
+    }
+
+    const failed = results.filter(result => !result.success).length;
+    return this.createResponse(failed > 0 ? StatusCodes.INTERNAL_SERVER_ERROR : StatusCodes.OK, {
+      message:
+        failed > 0
+          ? `${failed} of ${results.length} backup jobs failed`
+          : 'Backup jobs completed successfully',
+      jobs: results,
+    });
+  }
+
+  /** Captures the next oplog slice of each selected job in oplog mode, or of the default backup */
+  private async runOplogCaptures(event: ScheduledJobEvent): Promise<APIGatewayProxyResult> {
+    let jobs: (BackupJob | undefined)[];
+    try {
+      jobs = this.jobService.isConfigured() ? this.jobService.selectOplogJobs(event) : [undefined];
     } catch (error) {
       await this.notifyUnexpectedError(error);
       return this.errorHandler.handleError(error);
     }
+
+    const results: OplogRunResult[] = [];
+    for (const job of jobs) {
+      results.push(await this.captureOplog(job));
+    }
+
+    const failed = results.filter(result => !result.success).length;
+    return this.createResponse(failed > 0 ? StatusCodes.INTERNAL_SERVER_ERROR : StatusCodes.OK, {
+      message:
+        failed > 0
+          ? `${failed} of ${results.length} oplog captures failed`
+          : 'Oplog captures completed successfully',
+      jobs: results,
+    });
+  }
+
+  /** A gap is alerted on but not a failure: the slice itself was captured */
+  private async captureOplog(job?: BackupJob): Promise<OplogRunResult> {
+    const name = job?.name ?? 'default';
+    return this.logger.runWithFields({ job: job?.name }, async () => {
+      try {
+        const options = job ? await this.jobService.toBackupOptions(job) : {};
+        const captureResult = await this.backupService.captureOplog(options, job?.engine);
+        this.logger.info('Oplog capture completed', 'HandlerService', {
+          job: job?.name,
+          success: captureResult.success,
+          to: captureResult.slice && formatOplogTimestamp(captureResult.slice.to),
+        });
+
+        if (!captureResult.success) {
+          const { stderr, ...result } = captureResult;
+          if (this.shouldNotify(job)) {
+            await this.notificationService.sendBackupFailureNotification(
+              result.error ?? 'Oplog capture failed',
+              { job: job?.name, captureResult: result },
+              job?.notifications?.recipients,
+              stderr,
+            );
+          }
+          return { job: name, success: false, captureResult, error: result.error };
+        }
+
+        if (captureResult.slice?.gap) await this.notifyOplogGap(captureResult, job);
+        return { job: name, success: true, captureResult };
+      } catch (error) {
+        await this.notifyUnexpectedError(error, job);
+        return {
+          job: name,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+  }
+
+  /**
+   * Takes one backup, applies retention and sends notifications. Failures are
+   * returned rather than thrown, so one failing job doesn't stop the others.
+   */
+  private async executeBackup(overrides: BackupOptions, job?: BackupJob): Promise<BackupRun> {
+    // Its own scope, so the job and backup ID end up on this backup's log entries only
+    return this.logger.runWithFields({ job: job?.name }, async () => {
+      try {
+        const options = job
+          ? { ...(await this.jobService.toBackupOptions(job)), ...overrides }
+          : overrides;
+        const backupResult = await this.performBackup(options, job);
+
+        if (!backupResult.success) {
+          await this.notifyBackupFailure(backupResult, job);
+          return {
+            backupResult,
+            error: new BackupError(backupResult.error ?? 'Backup operation failed', {
+              details: { backupResult },
+            }),
+          };
+        }
+
+        const retention = await this.applyRetention(job);
+        await this.notifyBackupSuccess(backupResult, retention, job);
+        return { backupResult, retention };
+      } catch (error) {
+        await this.notifyUnexpectedError(error, job);
+        return { error };
+      }
+    });
   }
 
-  private async performBackup(): Promise<BackupResult> {
-    this.logger.info('Creating backup...', 'HandlerService');
-    const backupResult = await this.backupProvider.createBackup();
-    this.logger.info('Backup completed', 'HandlerService', { success: backupResult.success });
+  private async performBackup(options: BackupOptions, job?: BackupJob): Promise<BackupResult> {
+    this.logger.info('Creating backup...', 'HandlerService', { job: job?.name });
+    const backupResult = await this.backupService.createBackup(options, job?.engine);
+    this.logger.info('Backup completed', 'HandlerService', {
+      job: job?.name,
+      success: backupResult.success,
+    });
     return backupResult;
   }
 
-  private async handleFailedBackup(backupResult: BackupResult): Promise<APIGatewayProxyResult> {
-    await this.notifyBackupFailure(backupResult);
-    
-    return this.errorHandler.handleError(
-      new BackupError(backupResult.error ?? 'Backup operation failed', {
-        details: { backupResult }
-      })
-    );
+  private async restoreBackup(
+    id: string,
+    event: APIGatewayProxyEventV2,
+  ): Promise<APIGatewayProxyResult> {
+    const options = this.parseBody(event, restoreOptionsSchema);
+    const restoreResult = await this.backupService.restoreBackup(id, options);
+    await this.notifyRestore(restoreResult);
+
+    if (!restoreResult.success) {
+      throw new BackupError(restoreResult.error ?? 'Restore operation failed', {
+        details: { restoreResult },
+      });
+    }
+    return this.createResponse(StatusCodes.OK, {
+      message: 'Backup restored successfully',
+      restoreResult,
+    });
+  }
+
+  private async applyRetention(job?: BackupJob): Promise<RetentionResult | undefined> {
+    if (!job?.retention && !this.retentionService.isEnabled()) return undefined;
+
+    let retention: RetentionResult;
+    try {
+      if (job?.retention) {
+        const { dryRun, ...policy } = job.retention;
+        retention = await this.retentionService.applyPolicy(policy, dryRun, job.name);
+      } else {
+        retention = await this.retentionService.applyPolicy(undefined, undefined, job?.name);
+      }
+    } catch (error) {
+      // The backup itself succeeded; pruning will be retried on the next run
+      this.logger.error('Failed to apply retention policy', 'HandlerService', error, {
+        job: job?.name,
+      });
+      await this.notifyRetentionFailure(
+        { error: error instanceof Error ? error.message : String(error) },
+        job,
+      );
+      return undefined;
+    }
+
+    if (retention.failed.length > 0) {
+      await this.notifyRetentionFailure({ retention }, job);
+    }
+    return retention;
+  }
+
+  private async sendDigests(force = false): Promise<APIGatewayProxyResult> {
+    try {
+      const results = await this.notificationService.sendDigests(force);
+      return this.createResponse(StatusCodes.OK, {
+        message: `${results.length} notification digests sent`,
+        results,
+      });
+    } catch (error) {
+      // A digest that failed to send is kept and retried on the next run
+      this.logger.error('Failed to send notification digests', 'HandlerService', error);
+      return this.errorHandler.handleError(error);
+    }
+  }
+
+  private shouldNotify(job?: BackupJob): boolean {
+    return this.notificationService.isEnabled() && job?.notifications?.enabled !== false;
   }
 
-  private async notifyBackupSuccess(backupResult: BackupResult): Promise<void> {
-    if (!this.notificationService.isEnabled()) return;
-    
+  private async notifyBackupSuccess(
+    backupResult: BackupResult,
+    retention?: RetentionResult,
+    job?: BackupJob,
+  ): Promise<void> {
+    if (!this.shouldNotify(job)) return;
+
     await this.notificationService.sendBackupSuccessNotification({
       backupId: backupResult.backupId,
       timestamp: backupResult.timestamp,
       size: backupResult.size,
-      location: backupResult.location
+      location: backupResult.location,
+      destinations: backupResult.destinations,
+      retention,
+      manifest: backupResult.manifest,
+      job: job?.name,
+      recipients: job?.notifications?.recipients,
     });
   }
 
-  private async notifyBackupFailure(backupResult: BackupResult): Promise<void> {
-    if (!this.notificationService.isEnabled()) return;
-    
+  private async notifyBackupFailure(backupResult: BackupResult, job?: BackupJob): Promise<void> {
+    if (!this.shouldNotify(job)) return;
+
+    // stderr goes out as an attachment rather than inside the details
+    const { stderr, ...result } = backupResult;
     await this.notificationService.sendBackupFailureNotification(
-      backupResult.error ?? 'Unknown error',
-      { backupResult }
+      result.error ?? 'Unknown error',
+      { job: job?.name, backupResult: result },
+      job?.notifications?.recipients,
+      stderr,
     );
   }
 
-  private async notifyUnexpectedError(error: unknown): Promise<void> {
-    if (!this.notificationService.isEnabled()) return;
-    
+  private async notifyUnexpectedError(error: unknown, job?: BackupJob): Promise<void> {
+    if (!this.shouldNotify(job)) return;
+
     try {
       await this.notificationService.sendBackupFailureNotification(
         error instanceof Error ? error.message : 'Unknown error',
-        { stack: error instanceof Error ? error.stack : undefined }
+        { job: job?.name, stack: error instanceof Error ? error.stack : undefined },
+        job?.notifications?.recipients,
       );
     } catch (notificationError) {
       this.logger.error('Failed to send error notification', 'HandlerService', notificationError);
     }
   }
 
-  private createSuccessResponse(backupResult: BackupResult, event?: APIGatewayProxyEventV2): APIGatewayProxyResult {
+  /** Restores are started by hand, so there is no job whose settings could silence them */
+  private async notifyRestore(restoreResult: RestoreResult): Promise<void> {
+    if (!this.shouldNotify()) return;
+
+    try {
+      await this.notificationService.sendRestoreNotification(restoreResult);
+    } catch (notificationError) {
+      this.logger.error('Failed to send restore notification', 'HandlerService', notificationError);
+    }
+  }
+
+  private async notifyRetentionFailure(
+    failure: { retention?: RetentionResult; error?: string },
+    job?: BackupJob,
+  ): Promise<void> {
+    if (!this.shouldNotify(job)) return;
+
+    try {
+      await this.notificationService.sendRetentionFailureNotification(
+        { ...failure, job: job?.name },
+        job?.notifications?.recipients,
+      );
+    } catch (notificationError) {
+      this.logger.error(
+        'Failed to send retention failure notification',
+        'HandlerService',
+        notificationError,
+      );
+    }
+  }
+
+  private async notifyOplogGap(captureResult: OplogCaptureResult, job?: BackupJob): Promise<void> {
+    if (!this.shouldNotify(job) || !captureResult.slice) return;
+
+    try {
+      await this.notificationService.sendOplogGapNotification(
+        {
+          backupId: captureResult.backupId,
+          since: oplogTimestampToIso(captureResult.slice.from),
+          sequence: captureResult.slice.sequence,
+          job: job?.name,
+        },
+        job?.notifications?.recipients,
+      );
+    } catch (notificationError) {
+      this.logger.error(
+        'Failed to send oplog gap notification',
+        'HandlerService',
+        notificationError,
+      );
+    }
+  }
+
+  private createResponse(statusCode: number, body?: unknown): APIGatewayProxyResult {
     return {
-      statusCode: StatusCodes.OK,
-      body: JSON.stringify({
-        message: 'Backup created successfully',
-        backupResult,
-        input: event,
-      }),
+      statusCode,
+      body: body === undefined ? '' : JSON.stringify(body),
       headers: {
         'Content-Type': 'application/json',
       },
     };
   }
-}
\ No newline at end of file
+}
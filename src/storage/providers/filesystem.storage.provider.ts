@@ -0,0 +1,307 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  DeleteObjectCommandInput,
+  GetObjectCommandInput,
+  GetObjectCommandOutput,
+  ListObjectsV2CommandInput,
+  ListObjectsV2CommandOutput,
+  PutObjectCommandInput,
+  _Object,
+} from '@aws-sdk/client-s3';
+import { StorageProvider } from './storage.provider';
+import { S3StreamUploadInput } from './s3.storage.provider';
+import { FileSystemDestination } from '../storage.destination';
+import { StorageError } from '../../error';
+import { Logger } from '../../utils/logger/logger';
+
+const METADATA_SUFFIX = '.meta.json';
+/** In-flight writes, under the root so they can be renamed into place; never listed */
+const STAGING_DIRECTORY = '.staging';
+const DEFAULT_MAX_KEYS = 1000;
+
+/** Sidecar written next to every stored file */
+interface StoredMetadata {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Stores objects as plain files under a root directory, which may be a local
+ * disk or a NAS mount. Takes the same S3-shaped inputs as S3StorageService so
+ * the two are interchangeable; a bucket maps to a subdirectory of the root.
+ */
+class FileSystemStorageProvider extends StorageProvider {
+  readonly name = 'filesystem';
+
+  constructor(
+    private readonly destination: FileSystemDestination,
+    private readonly logger: Logger,
+  ) {
+    super();
+  }
+
+  locationOf(bucket: string | undefined, key: string): string {
+    return `file://${this.resolvePath(bucket, key)}`;
+  }
+
+  async save<TInput = PutObjectCommandInput, TResult = Record<string, never>>(
+    data: TInput,
+  ): Promise<TResult> {
+    const params = data as PutObjectCommandInput;
+    this.logger.info(
+      `Writing file for bucket: ${params.Bucket}, key: ${params.Key}`,
+      'FileSystemStorageProvider',
+    );
+    await this.write(params);
+    return {} as TResult;
+  }
+
+  async saveStream<TInput = S3StreamUploadInput, TResult = Record<string, never>>(
+    data: TInput,
+  ): Promise<TResult> {
+    // Part size and queue size only apply to multipart uploads
+    const { params } = data as S3StreamUploadInput;
+    this.logger.info(
+      `Streaming to file for bucket: ${params.Bucket}, key: ${params.Key}`,
+      'FileSystemStorageProvider',
+    );
+    await this.write(params);
+    return {} as TResult;
+  }
+
+  /**
+   * Writes to a file in the staging directory and renames it into place, so
+   * readers never see a partial file and a failed stream leaves nothing behind.
+   * With `IfNoneMatch: '*'` it is linked into place instead, which, like S3,
+   * fails when the key already exists.
+   */
+  private async write(params: PutObjectCommandInput): Promise<void> {
+    const filePath = this.resolvePath(params.Bucket, params.Key);
+    const tempPath = path.join(this.stagingDir(), crypto.randomBytes(12).toString('hex'));
+
+    try {
+      await fsp.mkdir(path.dirname(filePath), { recursive: true });
+      await fsp.mkdir(this.stagingDir(), { recursive: true });
+      await pipeline(this.toReadable(params.Body), fs.createWriteStream(tempPath));
+
+      const sidecar: StoredMetadata = {
+        contentType: params.ContentType,
+        metadata: params.Metadata,
+      };
+      if (params.IfNoneMatch === '*') {
+        await fsp.link(tempPath, filePath);
+        await fsp.rm(tempPath);
+        await fsp.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(sidecar, null, 2));
+      } else {
+        await fsp.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(sidecar, null, 2));
+        await fsp.rename(tempPath, filePath);
+      }
+    } catch (error) {
+      // Cleanup is best effort; the original error is the one worth reporting
+      await fsp.rm(tempPath, { force: true }).catch(() => undefined);
+      await this.removeEmptyParents(path.dirname(filePath), this.resolvePath(params.Bucket, ''));
+      this.logger.error('Error writing file', 'FileSystemStorageProvider', error, {
+        bucket: params.Bucket,
+        key: params.Key,
+      });
+
+      throw new StorageError(
+        `Failed to save data to file: ${error instanceof Error ? error.message : String(error)}`,
+        { details: { bucket: params.Bucket, key: params.Key }, cause: error },
+      );
+    }
+  }
+
+  private toReadable(body: PutObjectCommandInput['Body']): Readable {
+    if (body instanceof Readable) return body;
+    if (typeof body === 'string' || body instanceof Uint8Array) {
+      return Readable.from([Buffer.from(body)]);
+    }
+    if (body === undefined) return Readable.from([]);
+    throw new StorageError('Unsupported body type for filesystem storage');
+  }
+
+  async get<TInput = GetObjectCommandInput, TResult = GetObjectCommandOutput>(
+    options: TInput,
+  ): Promise<TResult> {
+    const { Bucket: bucket, Key: key } = options as GetObjectCommandInput;
+
+    try {
+      const filePath = this.resolvePath(bucket, key);
+      this.logger.info(
+        `Reading file for bucket: ${bucket}, key: ${key}`,
+        'FileSystemStorageProvider',
+      );
+
+      const stats = await fsp.stat(filePath);
+      const sidecar = await this.readMetadata(filePath);
+      const response: Partial<GetObjectCommandOutput> = {
+        Body: fs.createReadStream(filePath) as unknown as GetObjectCommandOutput['Body'],
+        ContentLength: stats.size,
+        ContentType: sidecar.contentType,
+        LastModified: stats.mtime,
+        Metadata: sidecar.metadata,
+      };
+      return response as TResult;
+    } catch (error) {
+      this.logger.error('Error reading file', 'FileSystemStorageProvider', error, { bucket, key });
+
+      throw new StorageError(
+        `Failed to fetch data from file: ${error instanceof Error ? error.message : String(error)}`,
+        { details: { bucket, key }, cause: error },
+      );
+    }
+  }
+
+  private async readMetadata(filePath: string): Promise<StoredMetadata> {
+    try {
+      return JSON.parse(
+        await fsp.readFile(`${filePath}${METADATA_SUFFIX}`, 'utf8'),
+      ) as StoredMetadata;
+    } catch {
+      // Files copied in by hand have no sidecar
+      return {};
+    }
+  }
+
+  /** Lists keys in lexicographic order, paginated like ListObjectsV2 */
+  async list<TInput = ListObjectsV2CommandInput, TResult = ListObjectsV2CommandOutput>(
+    options: TInput,
+  ): Promise<TResult> {
+    const {
+      Bucket: bucket,
+      Prefix: prefix = '',
+      ContinuationToken: continuationToken,
+      MaxKeys: maxKeys = DEFAULT_MAX_KEYS,
+    } = options as ListObjectsV2CommandInput;
+
+    try {
+      this.logger.debug(
+        `Listing files for bucket: ${bucket}, prefix: ${prefix}`,
+        'FileSystemStorageProvider',
+      );
+
+      const bucketRoot = this.resolvePath(bucket, '');
+      // Only walk the directory the prefix points into
+      const startDir = this.resolvePath(bucket, prefix.slice(0, prefix.lastIndexOf('/') + 1));
+      const keys = (await this.walk(startDir))
+        .map(filePath => path.relative(bucketRoot, filePath).split(path.sep).join('/'))
+        .filter(key => key.startsWith(prefix) && (!continuationToken || key > continuationToken))
+        .sort();
+
+      const page = keys.slice(0, maxKeys);
+      const contents: _Object[] = await Promise.all(
+        page.map(async key => {
+          const stats = await fsp.stat(this.resolvePath(bucket, key));
+          return { Key: key, Size: stats.size, LastModified: stats.mtime };
+        }),
+      );
+      const isTruncated = keys.length > page.length;
+
+      const response: Partial<ListObjectsV2CommandOutput> = {
+        Contents: contents,
+        KeyCount: contents.length,
+        IsTruncated: isTruncated,
+        NextContinuationToken: isTruncated ? page[page.length - 1] : undefined,
+      };
+      return response as TResult;
+    } catch (error) {
+      this.logger.error('Error listing files', 'FileSystemStorageProvider', error, {
+        bucket,
+        prefix,
+      });
+
+      throw new StorageError(
+        `Failed to list data in files: ${error instanceof Error ? error.message : String(error)}`,
+        { details: { bucket, prefix }, cause: error },
+      );
+    }
+  }
+
+  private async walk(directory: string): Promise<string[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      // A prefix nothing was ever written under
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (entryPath !== this.stagingDir()) files.push(...(await this.walk(entryPath)));
+      } else if (entry.isFile() && !entry.name.endsWith(METADATA_SUFFIX)) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  async delete<TInput = DeleteObjectCommandInput, TResult = Record<string, never>>(
+    options: TInput,
+  ): Promise<TResult> {
+    const { Bucket: bucket, Key: key } = options as DeleteObjectCommandInput;
+
+    try {
+      const filePath = this.resolvePath(bucket, key);
+      this.logger.info(
+        `Deleting file for bucket: ${bucket}, key: ${key}`,
+        'FileSystemStorageProvider',
+      );
+
+      // Like S3, deleting a missing key is not an error
+      await fsp.rm(filePath, { force: true });
+      await fsp.rm(`${filePath}${METADATA_SUFFIX}`, { force: true });
+      await this.removeEmptyParents(path.dirname(filePath), this.resolvePath(bucket, ''));
+      return {} as TResult;
+    } catch (error) {
+      this.logger.error('Error deleting file', 'FileSystemStorageProvider', error, { bucket, key });
+
+      throw new StorageError(
+        `Failed to delete data from file: ${error instanceof Error ? error.message : String(error)}`,
+        { details: { bucket, key }, cause: error },
+      );
+    }
+  }
+
+  /** Keys have no directories in S3, so don't leave empty ones behind either */
+  private async removeEmptyParents(directory: string, stopAt: string): Promise<void> {
+    let current = directory;
+    while (current.startsWith(stopAt) && current !== stopAt) {
+      const entries = await fsp.readdir(current).catch(() => undefined);
+      if (!entries || entries.length > 0) return;
+      // Another write may have claimed the directory in the meantime
+      const removed = await fsp.rmdir(current).then(
+        () => true,
+        () => false,
+      );
+      if (!removed) return;
+      current = path.dirname(current);
+    }
+  }
+
+  private stagingDir(): string {
+    return path.resolve(this.destination.rootDir, STAGING_DIRECTORY);
+  }
+
+  private resolvePath(bucket: string | undefined, key: string | undefined): string {
+    const bucketRoot = path.resolve(this.destination.rootDir, bucket ?? '');
+    const resolved = path.resolve(bucketRoot, key ?? '');
+    if (resolved !== bucketRoot && !resolved.startsWith(`${bucketRoot}${path.sep}`)) {
+      throw new StorageError(`Key resolves outside the storage root: ${key}`, {
+        details: { bucket, key },
+      });
+    }
+    return resolved;
+  }
+}
+
+export { FileSystemStorageProvider };
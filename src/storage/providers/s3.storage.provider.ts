@@ -1,54 +1,160 @@
-import { singleton, inject } from 'tsyringe';
+import fs from 'fs';
+import https from 'https';
 import { StorageProvider } from './storage.provider';
+import { Upload } from '@aws-sdk/lib-storage';
 import {
   S3Client,
+  CompleteMultipartUploadCommandOutput,
   PutObjectCommand,
   PutObjectCommandOutput,
   DeleteObjectCommand,
   PutObjectCommandInput,
   DeleteObjectCommandInput,
   DeleteObjectCommandOutput,
+  GetObjectCommand,
+  GetObjectCommandInput,
+  GetObjectCommandOutput,
+  ListObjectsV2Command,
+  ListObjectsV2CommandInput,
+  ListObjectsV2CommandOutput,
   S3ClientConfig,
 } from '@aws-sdk/client-s3';
-import { ConfigService } from '../../config/config.service';
-import { configSchema } from '../../config/config.schema';
-import { z } from 'zod';
-import { StorageError } from '../../error';
+import { S3Destination } from '../storage.destination';
+import { ConfigurationError, StorageError } from '../../error';
+import { MetricsService } from '../../metrics/metrics.service';
 import { Logger } from '../../utils/logger/logger';
 
-@singleton()
+// S3 rejects multipart parts smaller than 5 MB (except the last one)
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export interface S3StreamUploadInput {
+  params: PutObjectCommandInput;
+  partSize?: number;
+  queueSize?: number;
+}
+
+/**
+ * One S3 (or S3-compatible) destination. Instances are created per destination
+ * by StorageService rather than resolved from the container.
+ */
 class S3StorageService extends StorageProvider {
+  readonly name = 's3';
   private readonly S3: S3Client;
+  private readonly partSize: number;
+  private readonly queueSize: number;
 
   constructor(
-    @inject(ConfigService)
-    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
-    @inject(Logger) private readonly logger: Logger,
+    private readonly destination: S3Destination,
+    private readonly logger: Logger,
+    private readonly metricsService?: MetricsService,
   ) {
     super();
-    // Explicitly configure region - use environment AWS_REGION if available or default to us-east-1
-    const region = configService.get('AWS_REGION') ?? 'us-east-1';
-    const NODE_ENV = configService.get('NODE_ENV') ?? 'development';
-
-    const s3DefaultConfig: S3ClientConfig =
-      NODE_ENV === 'development'
-        ? {
-            region,
-            credentials: {
-              accessKeyId: configService.get('AWS_ACCESS_KEY_ID') ?? '',
-              secretAccessKey: configService.get('AWS_SECRET_ACCESS_KEY') ?? '',
-            },
-          }
-        : {};
-    this.logger.info(`Initializing S3 client with region: ${region}`, 'S3StorageService');
+    const region = destination.region ?? 'us-east-1';
+    this.logger.info(`Initializing S3 client with region: ${region}`, 'S3StorageService', {
+      destination: destination.name,
+      endpoint: destination.endpoint ?? 'aws',
+    });
+
+    this.partSize = (destination.partSizeMb ?? 16) * 1024 * 1024;
+    this.queueSize = destination.queueSize ?? 4;
 
     this.S3 = new S3Client({
-      ...s3DefaultConfig,
+      ...this.buildEndpointConfig(),
       region,
+      credentials: this.resolveCredentials(),
       // Make SDK return detailed errors
       retryMode: 'standard', // Enable automatic retries
       maxAttempts: 3, // Retry up to 3 times
     });
+    this.countRetries();
+  }
+
+  /** Reports the SDK's retries, which are otherwise invisible, to the metrics of the current run */
+  private countRetries(): void {
+    const metricsService = this.metricsService;
+    if (!metricsService) return;
+    const retriesOf = (value: unknown) =>
+      ((value as { $metadata?: { attempts?: number } } | undefined)?.$metadata?.attempts ?? 1) - 1;
+
+    // The initialize step wraps the retry loop, so it sees the final attempt count
+    this.S3.middlewareStack.add(
+      next => async args => {
+        try {
+          const result = await next(args);
+          metricsService.addRetries(retriesOf(result.output));
+          return result;
+        } catch (error) {
+          metricsService.addRetries(retriesOf(error));
+          throw error;
+        }
+      },
+      { step: 'initialize', name: 'countRetriesMiddleware' },
+    );
+  }
+
+  /**
+   * Static keys when configured, in every environment; otherwise undefined so
+   * the SDK falls back to its default chain (Lambda role, profile, IMDS).
+   */
+  private resolveCredentials(): S3ClientConfig['credentials'] {
+    const { accessKeyId, secretAccessKey, sessionToken } = this.destination;
+
+    if (!accessKeyId && !secretAccessKey) return undefined;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new ConfigurationError(
+        `Access key ID and secret access key must be configured together for destination: ${this.destination.name}`,
+      );
+    }
+
+    return { accessKeyId, secretAccessKey, sessionToken };
+  }
+
+  /** Settings for S3-compatible stores such as MinIO, Ceph RGW or Wasabi */
+  private buildEndpointConfig(): S3ClientConfig {
+    const { endpoint, forcePathStyle, signatureVersion, tlsVerify, caBundle } = this.destination;
+    const config: S3ClientConfig = { forcePathStyle };
+
+    if (endpoint) {
+      config.endpoint = endpoint;
+      // Most S3-compatible stores reject the CRC checksums newer SDKs add by default
+      config.requestChecksumCalculation = 'WHEN_REQUIRED';
+      config.responseChecksumValidation = 'WHEN_REQUIRED';
+    }
+
+    if (signatureVersion === 'v4a') {
+      config.authSchemePreference = ['sigv4a'];
+    }
+
+    if (!tlsVerify || caBundle) {
+      if (!tlsVerify) {
+        this.logger.warn('TLS certificate verification is disabled for S3', 'S3StorageService', {
+          destination: this.destination.name,
+        });
+      }
+      config.requestHandler = {
+        httpsAgent: new https.Agent({
+          keepAlive: true,
+          rejectUnauthorized: tlsVerify,
+          ca: caBundle ? this.readCaBundle(caBundle) : undefined,
+        }),
+      };
+    }
+
+    return config;
+  }
+
+  private readCaBundle(caBundlePath: string): Buffer {
+    try {
+      return fs.readFileSync(caBundlePath);
+    } catch (error) {
+      throw new ConfigurationError(`Failed to read S3 CA bundle: ${caBundlePath}`, {
+        cause: error,
+      });
+    }
+  }
+
+  locationOf(bucket: string | undefined, key: string): string {
+    return `s3://${bucket}/${key}`;
   }
 
   async save<TInput = PutObjectCommandInput, TResult = PutObjectCommandOutput>(
@@ -82,6 +188,121 @@ class S3StorageService extends StorageProvider {
     }
   }
 
+  async saveStream<TInput = S3StreamUploadInput, TResult = CompleteMultipartUploadCommandOutput>(
+    data: TInput,
+  ): Promise<TResult> {
+    const { params, partSize, queueSize } = data as S3StreamUploadInput;
+
+    try {
+      const upload = new Upload({
+        client: this.S3,
+        params,
+        partSize: Math.max(partSize ?? this.partSize, MIN_PART_SIZE),
+        queueSize: Math.max(queueSize ?? this.queueSize, 1),
+      });
+
+      this.logger.info(
+        `Streaming upload to S3 bucket: ${params.Bucket}, key: ${params.Key}`,
+        'S3StorageService',
+      );
+      upload.on('httpUploadProgress', progress => {
+        this.logger.debug('S3 upload progress', 'S3StorageService', {
+          key: params.Key,
+          loaded: progress.loaded,
+          part: progress.part,
+        });
+      });
+
+      const response = await upload.done();
+      this.logger.debug('S3 streaming upload successful', 'S3StorageService', { response });
+      return response as TResult;
+    } catch (error) {
+      this.logger.error('Error streaming data to S3', 'S3StorageService', error, {
+        bucket: params.Bucket,
+        key: params.Key,
+      });
+
+      throw new StorageError(
+        `Failed to stream data to S3: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          details: {
+            bucket: params.Bucket,
+            key: params.Key,
+          },
+          cause: error,
+        },
+      );
+    }
+  }
+
+  async get<TInput = GetObjectCommandInput, TResult = GetObjectCommandOutput>(
+    options: TInput,
+  ): Promise<TResult> {
+    try {
+      const bucket = (options as GetObjectCommandInput).Bucket;
+      const key = (options as GetObjectCommandInput).Key;
+
+      this.logger.info(`Fetching from S3 bucket: ${bucket}, key: ${key}`, 'S3StorageService');
+      const command = new GetObjectCommand(options as GetObjectCommandInput);
+      const response = await this.S3.send(command);
+      this.logger.debug('S3 fetch successful', 'S3StorageService', {
+        contentLength: response.ContentLength,
+        lastModified: response.LastModified,
+      });
+      return response as TResult;
+    } catch (error) {
+      this.logger.error('Error fetching data from S3', 'S3StorageService', error, {
+        bucket: (options as GetObjectCommandInput).Bucket,
+        key: (options as GetObjectCommandInput).Key,
+      });
+
+      throw new StorageError(
+        `Failed to fetch data from S3: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          details: {
+            bucket: (options as GetObjectCommandInput).Bucket,
+            key: (options as GetObjectCommandInput).Key,
+          },
+          cause: error,
+        },
+      );
+    }
+  }
+
+  async list<TInput = ListObjectsV2CommandInput, TResult = ListObjectsV2CommandOutput>(
+    options: TInput,
+  ): Promise<TResult> {
+    try {
+      const bucket = (options as ListObjectsV2CommandInput).Bucket;
+      const prefix = (options as ListObjectsV2CommandInput).Prefix;
+
+      this.logger.debug(`Listing S3 bucket: ${bucket}, prefix: ${prefix}`, 'S3StorageService');
+      const command = new ListObjectsV2Command(options as ListObjectsV2CommandInput);
+      const response = await this.S3.send(command);
+      this.logger.debug('S3 list successful', 'S3StorageService', {
+        keyCount: response.KeyCount,
+        isTruncated: response.IsTruncated,
+      });
+      return response as TResult;
+    } catch (error) {
+      this.logger.error('Error listing data in S3', 'S3StorageService', error, {
+        bucket: (options as ListObjectsV2CommandInput).Bucket,
+        prefix: (options as ListObjectsV2CommandInput).Prefix,
+      });
+
+      throw new StorageError(
+        `Failed to list data in S3: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          details: {
+            bucket: (options as ListObjectsV2CommandInput).Bucket,
+            prefix: (options as ListObjectsV2CommandInput).Prefix,
+          },
+          cause: error,
+        },
+      );
+    }
+  }
+
   async delete<TInput = DeleteObjectCommandInput, TResult = DeleteObjectCommandOutput>(
     options: TInput,
   ): Promise<TResult> {
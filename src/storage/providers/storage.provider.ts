@@ -1,5 +1,10 @@
 abstract class StorageProvider {
+    abstract readonly name: string;
+    abstract locationOf(bucket: string | undefined, key: string): string;
     abstract save<TInput = unknown, TResult = unknown>(data: TInput): Promise<TResult>;
+    abstract saveStream<TInput = unknown, TResult = unknown>(data: TInput): Promise<TResult>;
+    abstract get<TInput = unknown, TResult = unknown>(options: TInput): Promise<TResult>;
+    abstract list<TInput = unknown, TResult = unknown>(options: TInput): Promise<TResult>;
     abstract delete<TInput = unknown, TResult = unknown>(id: TInput): Promise<TResult>;
 }
 
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const destinationBase = {
+  name: z.string().min(1),
+  /** Whether this destination must succeed under the 'required' failure policy */
+  required: z.boolean().optional().default(true),
+};
+
+const s3DestinationSchema = z.object({
+  ...destinationBase,
+  provider: z.literal('s3'),
+  bucket: z.string().min(1),
+  region: z.string().optional(),
+  endpoint: z.string().url().optional(),
+  forcePathStyle: z.boolean().optional().default(false),
+  tlsVerify: z.boolean().optional().default(true),
+  caBundle: z.string().optional(),
+  signatureVersion: z.enum(['v4', 'v4a']).optional().default('v4'),
+  accessKeyId: z.string().optional(),
+  secretAccessKey: z.string().optional(),
+  sessionToken: z.string().optional(),
+  partSizeMb: z.number().int().positive().optional(),
+  queueSize: z.number().int().positive().optional(),
+});
+
+const fileSystemDestinationSchema = z.object({
+  ...destinationBase,
+  provider: z.literal('filesystem'),
+  rootDir: z.string().min(1),
+  /** Optional subdirectory of rootDir, mirroring an S3 bucket */
+  bucket: z.string().optional(),
+});
+
+const storageDestinationSchema = z.discriminatedUnion('provider', [
+  s3DestinationSchema,
+  fileSystemDestinationSchema,
+]);
+
+const storageDestinationsSchema = z
+  .array(storageDestinationSchema)
+  .min(1)
+  .refine(
+    destinations =>
+      new Set(destinations.map(destination => destination.name)).size === destinations.length,
+    { message: 'Destination names must be unique' },
+  );
+
+export type S3Destination = z.infer<typeof s3DestinationSchema>;
+export type FileSystemDestination = z.infer<typeof fileSystemDestinationSchema>;
+export type StorageDestination = z.infer<typeof storageDestinationSchema>;
+
+/** Outcome of writing one backup to one destination */
+export interface DestinationResult {
+  destination: string;
+  success: boolean;
+  location?: string;
+  error?: string;
+}
+
+export { storageDestinationSchema, storageDestinationsSchema };
@@ -0,0 +1,24 @@
+import { ApplicationError } from '../error';
+
+/** The SDK or filesystem error a storage provider wrapped in its own error */
+const storageCause = (error: unknown): NodeJS.ErrnoException | undefined =>
+  error instanceof ApplicationError
+    ? (error.cause as NodeJS.ErrnoException | undefined)
+    : undefined;
+
+/** The object to read doesn't exist */
+export const isObjectNotFound = (error: unknown): boolean => {
+  const cause = storageCause(error);
+  return cause?.name === 'NoSuchKey' || cause?.code === 'ENOENT';
+};
+
+/** A create-only write (`IfNoneMatch: '*'`) found the object already there */
+export const isObjectAlreadyPresent = (error: unknown): boolean => {
+  const cause = storageCause(error);
+  // S3 answers 409 instead of 412 when a concurrent write of the same key is still in flight
+  return (
+    cause?.name === 'PreconditionFailed' ||
+    cause?.name === 'ConditionalRequestConflict' ||
+    cause?.code === 'EEXIST'
+  );
+};
@@ -0,0 +1,157 @@
+import { singleton, inject } from 'tsyringe';
+import { z } from 'zod';
+import { StorageProvider } from './providers/storage.provider';
+import { S3StorageService } from './providers/s3.storage.provider';
+import { FileSystemStorageProvider } from './providers/filesystem.storage.provider';
+import { DestinationResult, StorageDestination } from './storage.destination';
+import { ConfigService } from '../config/config.service';
+import { configSchema } from '../config/config.schema';
+import { ConfigurationError } from '../error';
+import { MetricsService } from '../metrics/metrics.service';
+import { Logger } from '../utils/logger/logger';
+
+export type StorageFailurePolicy = 'all' | 'any' | 'required';
+
+/** A configured destination together with the provider that writes to it */
+export interface StorageTarget {
+  name: string;
+  required: boolean;
+  bucket?: string;
+  provider: StorageProvider;
+}
+
+/**
+ * Builds one storage provider per destination in STORAGE_DESTINATIONS, or a
+ * single "primary" destination from the plain STORAGE_PROVIDER/S3_* settings.
+ */
+@singleton()
+class StorageService {
+  private targets?: StorageTarget[];
+
+  constructor(
+    @inject(ConfigService)
+    private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(MetricsService) private readonly metricsService: MetricsService,
+    @inject(Logger) private readonly logger: Logger,
+  ) {}
+
+  /** Every configured target, or only the named ones */
+  getTargets(names?: string[]): StorageTarget[] {
+    this.targets ??= this.loadDestinations().map(destination => ({
+      name: destination.name,
+      required: destination.required,
+      bucket: destination.bucket,
+      provider: this.createProvider(destination),
+    }));
+    if (!names) return this.targets;
+
+    const unknown = names.filter(name => !this.targets?.some(target => target.name === name));
+    if (unknown.length > 0) {
+      throw new ConfigurationError(`Unknown storage destinations: ${unknown.join(', ')}`, {
+        details: { configured: this.targets.map(target => target.name) },
+      });
+    }
+    return this.targets.filter(target => names.includes(target.name));
+  }
+
+  /**
+   * Where the application keeps its own small state, such as notification
+   * state and request nonces: the first destination. Without configured
+   * storage there is none, and callers keep the state in memory.
+   */
+  getStateTarget(purpose: string): StorageTarget | undefined {
+    try {
+      return this.getTargets()[0];
+    } catch (error) {
+      this.logger.warn(`No storage for ${purpose}, keeping it in memory`, 'StorageService', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  getFailurePolicy(): StorageFailurePolicy {
+    return this.configService.get('STORAGE_FAILURE_POLICY');
+  }
+
+  /** Explains why a set of upload results fails the policy, or undefined when it passes */
+  checkFailurePolicy(results: DestinationResult[]): string | undefined {
+    const failed = results.filter(result => !result.success);
+    if (failed.length === 0) return undefined;
+
+    const policy = this.getFailurePolicy();
+    const requiredFailed = failed.filter(
+      result => this.getTargets().find(target => target.name === result.destination)?.required,
+    );
+    const violated =
+      failed.length === results.length ||
+      policy === 'all' ||
+      (policy === 'required' && requiredFailed.length > 0);
+
+    const summary = failed.map(result => `${result.destination}: ${result.error}`).join('; ');
+    if (!violated) {
+      this.logger.warn('Backup stored with some destinations failing', 'StorageService', {
+        policy,
+        failed: failed.map(result => result.destination),
+      });
+      return undefined;
+    }
+    return `Upload failed for ${failed.length} of ${results.length} destinations (${summary})`;
+  }
+
+  private loadDestinations(): StorageDestination[] {
+    return this.configService.get('STORAGE_DESTINATIONS') ?? [this.defaultDestination()];
+  }
+
+  private defaultDestination(): StorageDestination {
+    const bucket = this.configService.get('AWS_S3_BUCKET_NAME');
+
+    if (this.configService.get('STORAGE_PROVIDER') === 'filesystem') {
+      const rootDir = this.configService.get('STORAGE_ROOT_DIR');
+      if (!rootDir) {
+        throw new ConfigurationError('Storage root directory is not configured');
+      }
+      return { name: 'primary', provider: 'filesystem', required: true, rootDir, bucket };
+    }
+
+    if (!bucket) {
+      this.logger.error('S3 bucket name is not configured', 'StorageService');
+      throw new ConfigurationError('S3 bucket name is not configured');
+    }
+    return {
+      name: 'primary',
+      provider: 's3',
+      required: true,
+      bucket,
+      endpoint: this.configService.get('S3_ENDPOINT'),
+      forcePathStyle: this.configService.get('S3_FORCE_PATH_STYLE'),
+      tlsVerify: this.configService.get('S3_TLS_VERIFY'),
+      caBundle: this.configService.get('S3_CA_BUNDLE'),
+      signatureVersion: this.configService.get('S3_SIGNATURE_VERSION'),
+      accessKeyId: this.configService.get('AWS_ACCESS_KEY_ID'),
+      secretAccessKey: this.configService.get('AWS_SECRET_ACCESS_KEY'),
+      sessionToken: this.configService.get('AWS_SESSION_TOKEN'),
+    };
+  }
+
+  private createProvider(destination: StorageDestination): StorageProvider {
+    const logger = this.logger.child({ destination: destination.name });
+    switch (destination.provider) {
+      case 's3':
+        return new S3StorageService(
+          {
+            ...destination,
+            region: destination.region ?? this.configService.get('AWS_REGION'),
+            partSizeMb: destination.partSizeMb ?? this.configService.get('S3_UPLOAD_PART_SIZE_MB'),
+            queueSize: destination.queueSize ?? this.configService.get('S3_UPLOAD_QUEUE_SIZE'),
+          },
+          logger,
+          this.metricsService,
+        );
+      case 'filesystem':
+        return new FileSystemStorageProvider(destination, logger);
+    }
+  }
+}
+
+export { StorageService };
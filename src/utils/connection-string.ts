@@ -0,0 +1,20 @@
+const CONNECTION_STRING = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]*@)?([^/?]+)(?:\/([^?]*))?/i;
+
+/** Host list of a connection string, without credentials, database or options */
+export const describeConnectionHost = (uri: string): string =>
+  CONNECTION_STRING.exec(uri)?.[1] ?? 'unknown';
+
+/** Database named in the path of a connection string, if any */
+export const connectionDatabase = (uri: string): string | undefined => {
+  const database = CONNECTION_STRING.exec(uri)?.[2];
+  return database ? decodeURIComponent(database) : undefined;
+};
+
+const URI_PASSWORD = /^([a-z][a-z0-9+.-]*:\/\/[^@/:]*):([^@/]*)@/i;
+
+/** Connection string with its password taken out, for tools that can be given it another way */
+export const splitConnectionPassword = (uri: string): { uri: string; password?: string } => {
+  const match = URI_PASSWORD.exec(uri);
+  if (!match) return { uri };
+  return { uri: uri.replace(URI_PASSWORD, '$1@'), password: decodeURIComponent(match[2]) };
+};
@@ -0,0 +1,187 @@
+import 'reflect-metadata';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+// First: the logger and config.service import each other through the error module
+import { ConfigService } from '../../config/config.service';
+import { Logger } from './logger';
+import { toJsonLine } from './sinks/log.sink';
+import { MemoryLogSink } from './sinks/memory.log.sink';
+import { StaticConfigProvider } from '../../config/providers/static.config.provider';
+import { RedactionService } from '../../redaction/redaction.service';
+
+describe('Logger', () => {
+  let logDir: string;
+  let logFile: string;
+  let configService: ConfigService;
+
+  before(async () => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backupnimbus-logger-'));
+    logFile = path.join(logDir, 'backupnimbus.log');
+    // The file sink keeps the console quiet and doubles as the JSON output under test
+    configService = new ConfigService(
+      [new StaticConfigProvider({ LOG_LEVEL: 'DEBUG', LOG_SINKS: 'file', LOG_FILE: logFile })],
+      new RedactionService(),
+    );
+    await configService.load();
+  });
+
+  after(() => fs.rmSync(logDir, { recursive: true, force: true }));
+
+  const createLogger = () => {
+    const logger = new Logger(configService, new RedactionService());
+    const sink = new MemoryLogSink();
+    logger.addSink(sink);
+    return { logger, sink };
+  };
+
+  describe('child', () => {
+    it('adds its fields to every entry without changing the parent', () => {
+      const { logger, sink } = createLogger();
+      const child = logger.child({ job: 'orders' });
+      const grandchild = child.child({ destination: 'offsite' });
+
+      logger.info('parent');
+      child.info('child');
+      grandchild.info('grandchild');
+
+      assert.deepEqual(
+        sink.getEntries().map(entry => entry.fields),
+        [undefined, { job: 'orders' }, { job: 'orders', destination: 'offsite' }],
+      );
+    });
+
+    it('writes to sinks added after it was created', () => {
+      const { logger } = createLogger();
+      const child = logger.child({ job: 'orders' });
+      const sink = new MemoryLogSink();
+
+      logger.addSink(sink);
+      child.warn('late sink');
+      logger.removeSink(sink);
+      child.warn('removed sink');
+
+      assert.deepEqual(
+        sink.getEntries().map(entry => entry.message),
+        ['late sink'],
+      );
+    });
+
+    it('overrides scope fields of the same name', () => {
+      const { logger, sink } = createLogger();
+
+      logger.runWithFields({ job: 'scheduled', correlationId: 'req-1' }, () => {
+        logger.child({ job: 'orders' }).info('bound');
+      });
+
+      assert.deepEqual(sink.getEntries()[0].fields, { job: 'orders', correlationId: 'req-1' });
+    });
+  });
+
+  describe('runWithFields', () => {
+    it('keeps concurrent scopes apart across awaits', async () => {
+      const { logger, sink } = createLogger();
+
+      const run = (correlationId: string, delayMs: number) =>
+        logger.runWithFields({ correlationId }, async () => {
+          logger.info('started', 'Handler');
+          await sleep(delayMs);
+          logger.bindFields({ backupId: `backup-${correlationId}` });
+          await sleep(delayMs);
+          logger.info('finished', 'Handler');
+        });
+      await Promise.all([run('a', 20), run('b', 5), run('c', 10)]);
+
+      const fieldsOf = (correlationId: string) =>
+        sink
+          .getEntries()
+          .filter(entry => entry.fields?.correlationId === correlationId)
+          .map(entry => [entry.message, entry.fields]);
+      for (const id of ['a', 'b', 'c']) {
+        assert.deepEqual(fieldsOf(id), [
+          ['started', { correlationId: id }],
+          ['finished', { correlationId: id, backupId: `backup-${id}` }],
+        ]);
+      }
+    });
+
+    it('lets nested scopes see the outer fields without changing them', () => {
+      const { logger, sink } = createLogger();
+
+      logger.runWithFields({ correlationId: 'req-1' }, () => {
+        logger.runWithFields({ job: 'orders' }, () => {
+          logger.bindFields({ backupId: 'backup-1' });
+          logger.info('inner');
+        });
+        logger.info('outer');
+      });
+
+      assert.deepEqual(
+        sink.getEntries().map(entry => entry.fields),
+        [{ correlationId: 'req-1', job: 'orders', backupId: 'backup-1' }, { correlationId: 'req-1' }],
+      );
+    });
+
+    it('ignores bindFields outside any scope', () => {
+      const { logger, sink } = createLogger();
+
+      logger.bindFields({ backupId: 'backup-1' });
+      logger.info('unscoped');
+
+      assert.deepEqual(logger.getFields(), {});
+      assert.equal(sink.getEntries()[0].fields, undefined);
+    });
+  });
+
+  describe('JSON output', () => {
+    it('puts the bound fields at the top level of each line', () => {
+      const { logger } = createLogger();
+      fs.rmSync(logFile, { force: true });
+
+      logger.runWithFields({ correlationId: 'req-1' }, () => {
+        logger.child({ job: 'orders' }).error('Backup failed', 'BackupService', new Error('boom'), {
+          attempt: 2,
+        });
+      });
+
+      const lines = fs.readFileSync(logFile, 'utf8').trim().split('\n');
+      assert.equal(lines.length, 1);
+      const line = JSON.parse(lines[0]);
+      assert.deepEqual(Object.keys(line), [
+        'timestamp',
+        'level',
+        'correlationId',
+        'job',
+        'context',
+        'message',
+        'data',
+      ]);
+      assert.match(line.timestamp, /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
+      assert.equal(line.level, 'ERROR');
+      assert.equal(line.correlationId, 'req-1');
+      assert.equal(line.job, 'orders');
+      assert.equal(line.context, 'BackupService');
+      assert.equal(line.message, 'Backup failed');
+      assert.equal(line.data.attempt, 2);
+      assert.equal(line.data.errorMessage, 'boom');
+    });
+
+    it('writes errors, bigints and cycles in data readably', () => {
+      const data: Record<string, unknown> = { size: 10n, cause: new TypeError('bad input') };
+      data.self = data;
+
+      const line = JSON.parse(
+        toJsonLine({ timestamp: '2026-01-01T00:00:00.000Z', level: 'INFO', message: 'm', data }),
+      );
+
+      assert.equal(line.data.size, '10');
+      assert.equal(line.data.cause.name, 'TypeError');
+      assert.equal(line.data.cause.message, 'bad input');
+      assert.equal(line.data.self, '[Circular]');
+      assert.equal('fields' in line, false);
+    });
+  });
+});
@@ -1,7 +1,18 @@
 import { singleton, inject, delay } from 'tsyringe';
+import { AsyncLocalStorage } from 'async_hooks';
 import { ConfigService } from '../../config/config.service';
 import { configSchema } from '../../config/config.schema';
 import { z } from 'zod';
+import { LogEntry, LogFields, LogSink } from './sinks/log.sink';
+import { ConsoleLogSink } from './sinks/console.log.sink';
+import { FileLogSink } from './sinks/file.log.sink';
+import { MemoryLogSink } from './sinks/memory.log.sink';
+import { RedactionService } from '../../redaction/redaction.service';
+
+export type { LogEntry, LogFields };
+
+/** How many entries are kept for getRecentEntries() */
+const RECENT_ENTRY_LIMIT = 200;
 
 export enum LogLevel {
   DEBUG = 0,
@@ -10,33 +21,93 @@ export enum LogLevel {
   ERROR = 3,
 }
 
-export interface LogEntry {
-  timestamp: string;
-  level: string;
-  message: string;
-  context?: string;
-  data?: Record<string, unknown>;
+/** State shared by a logger and all its children */
+interface LoggerState {
+  logLevel?: LogLevel;
+  sinks?: LogSink[];
+  readonly recent: MemoryLogSink;
 }
 
+/** Fields of the current invocation, job or request, across every await */
+const scope = new AsyncLocalStorage<LogFields>();
+
 @singleton()
 export class Logger {
-  private logLevel?: LogLevel;
+  private readonly state: LoggerState = { recent: new MemoryLogSink(RECENT_ENTRY_LIMIT) };
+  private bindings: LogFields = {};
 
   constructor(
-    @inject(delay(() => ConfigService)) private readonly configServiceFactory: () => ConfigService<z.infer<typeof configSchema>>
+    // delay() injects a proxy that constructs ConfigService on first use, not a factory
+    @inject(delay(() => ConfigService)) private readonly configService: ConfigService<z.infer<typeof configSchema>>,
+    @inject(RedactionService) private readonly redactionService: RedactionService
   ) {}
 
   private ensureInitialized(): void {
-    if (this.logLevel === undefined) {
-      this.logLevel = this.getLogLevelFromEnvironment();
+    if (this.state.logLevel === undefined) {
+      this.state.logLevel = this.getLogLevelFromEnvironment();
+    }
+    this.state.sinks ??= this.createSinks();
+  }
+
+  private createSinks(): LogSink[] {
+    try {
+      const format = this.configService.get('LOG_FORMAT');
+      const logFile = this.configService.get('LOG_FILE');
+      return this.configService.get('LOG_SINKS').flatMap((name): LogSink[] => {
+        if (name === 'console') return [new ConsoleLogSink(format)];
+        if (!logFile) {
+          console.warn('LOG_SINKS includes file, but LOG_FILE is not set; skipping the file sink');
+          return [];
+        }
+        return [new FileLogSink(logFile)];
+      });
+    } catch (error) {
+      console.warn('Error initializing log sinks, defaulting to the console:', error);
+      return [new ConsoleLogSink()];
     }
   }
 
+  /** A logger writing to the same sinks that adds `fields` to every entry */
+  child(fields: LogFields): Logger {
+    // The prototype chain shares the state, so sinks added later reach every child
+    const child = Object.create(this) as Logger;
+    child.bindings = { ...this.bindings, ...fields };
+    return child;
+  }
+
+  /**
+   * Runs `fn` in a scope whose fields every logger adds to its entries, such
+   * as the correlation ID of a Lambda invocation. Scopes nest; an inner scope
+   * sees the outer scope's fields.
+   */
+  runWithFields<T>(fields: LogFields, fn: () => T): T {
+    return scope.run({ ...scope.getStore(), ...fields }, fn);
+  }
+
+  /** Adds fields to the current scope, e.g. the backup ID once it is known; outside any scope it does nothing */
+  bindFields(fields: LogFields): void {
+    const store = scope.getStore();
+    if (store) Object.assign(store, fields);
+  }
+
+  /** The fields this logger adds to its entries in the current scope */
+  getFields(): LogFields {
+    return { ...scope.getStore(), ...this.bindings };
+  }
+
+  addSink(sink: LogSink): void {
+    this.ensureInitialized();
+    this.state.sinks?.push(sink);
+  }
+
+  removeSink(sink: LogSink): void {
+    this.state.sinks = this.state.sinks?.filter(candidate => candidate !== sink);
+  }
+
   private getLogLevelFromEnvironment(): LogLevel {
     try {
-      const configService = this.configServiceFactory();
-      const nodeEnv = configService.get('NODE_ENV');
-      const logLevelString = configService.get('LOG_LEVEL');
+      const nodeEnv = this.configService.get('NODE_ENV');
+      const logLevelString = this.configService.get('LOG_LEVEL');
 
       if (logLevelString) {
         const level = logLevelString.toUpperCase();
@@ -60,56 +131,58 @@ export class Logger {
   }
 
   private formatLog(level: string, message: string, context?: string, data?: Record<string, unknown>): LogEntry {
+    const fields = this.getFields();
     return {
       timestamp: new Date().toISOString(),
       level,
-      message,
+      // Before any sink, including the recent entries that end up in failure emails
+      message: this.redactionService.redact(message),
       context,
-      data,
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+      data: data && this.redactionService.redactValue(data),
     };
   }
 
   private shouldLog(level: LogLevel): boolean {
     this.ensureInitialized();
-    return this.logLevel !== undefined && level >= this.logLevel;
-  }
-
-  private logToConsole(entry: LogEntry): void {
-    const prefix = `[${entry.timestamp}] [${entry.level}]${entry.context ? ` [${entry.context}]` : ''}`;
-    
-    switch(entry.level) {
-      case 'ERROR':
-        console.error(prefix, entry.message, entry.data ? entry.data : '');
-        break;
-      case 'WARN':
-        console.warn(prefix, entry.message, entry.data ? entry.data : '');
-        break;
-      case 'DEBUG':
-        console.debug(prefix, entry.message, entry.data ? entry.data : '');
-        break;
-      default:
-        console.log(prefix, entry.message, entry.data ? entry.data : '');
+    return this.state.logLevel !== undefined && level >= this.state.logLevel;
+  }
+
+  /** The most recently written entries, oldest first, e.g. as evidence for a failure report */
+  getRecentEntries(limit = RECENT_ENTRY_LIMIT): LogEntry[] {
+    return this.state.recent.getEntries(limit);
+  }
+
+  private write(entry: LogEntry): void {
+    this.state.recent.write(entry);
+    for (const sink of this.state.sinks ?? []) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // Logging must never be why an operation fails
+        console.error(`Log sink ${sink.name} failed:`, error);
+      }
     }
   }
 
   debug(message: string, context?: string, data?: Record<string, unknown>): void {
     if (this.shouldLog(LogLevel.DEBUG)) {
       const entry = this.formatLog('DEBUG', message, context, data);
-      this.logToConsole(entry);
+      this.write(entry);
     }
   }
 
   info(message: string, context?: string, data?: Record<string, unknown>): void {
     if (this.shouldLog(LogLevel.INFO)) {
       const entry = this.formatLog('INFO', message, context, data);
-      this.logToConsole(entry);
+      this.write(entry);
     }
   }
 
   warn(message: string, context?: string, data?: Record<string, unknown>): void {
     if (this.shouldLog(LogLevel.WARN)) {
       const entry = this.formatLog('WARN', message, context, data);
-      this.logToConsole(entry);
+      this.write(entry);
     }
   }
 
@@ -120,7 +193,7 @@ export class Logger {
         : data;
       
       const entry = this.formatLog('ERROR', message, context, errorData);
-      this.logToConsole(entry);
+      this.write(entry);
     }
   }
 }
\ No newline at end of file
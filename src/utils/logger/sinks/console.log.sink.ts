@@ -0,0 +1,47 @@
+import { LogEntry, LogSink, toJsonLine } from './log.sink';
+
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Writes to the console: readable text for local runs, or JSON lines for
+ * CloudWatch Logs Insights. JSON goes straight to stdout and stderr, because
+ * the Lambda runtime prefixes every console.* line with its own fields.
+ */
+class ConsoleLogSink extends LogSink {
+  readonly name = 'console';
+
+  constructor(private readonly format: LogFormat = 'text') {
+    super();
+  }
+
+  write(entry: LogEntry): void {
+    if (this.format === 'json') {
+      const stream =
+        entry.level === 'ERROR' || entry.level === 'WARN' ? process.stderr : process.stdout;
+      stream.write(`${toJsonLine(entry)}\n`);
+      return;
+    }
+
+    const fields = Object.entries(entry.fields ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${String(value)}`)
+      .join(' ');
+    const prefix = `[${entry.timestamp}] [${entry.level}]${entry.context ? ` [${entry.context}]` : ''}${fields ? ` [${fields}]` : ''}`;
+
+    switch (entry.level) {
+      case 'ERROR':
+        console.error(prefix, entry.message, entry.data ? entry.data : '');
+        break;
+      case 'WARN':
+        console.warn(prefix, entry.message, entry.data ? entry.data : '');
+        break;
+      case 'DEBUG':
+        console.debug(prefix, entry.message, entry.data ? entry.data : '');
+        break;
+      default:
+        console.log(prefix, entry.message, entry.data ? entry.data : '');
+    }
+  }
+}
+
+export { ConsoleLogSink };
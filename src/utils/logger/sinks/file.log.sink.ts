@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import { LogEntry, LogSink, toJsonLine } from './log.sink';
+
+/**
+ * Appends JSON lines to a file. Writes are synchronous, so nothing is lost
+ * when a Lambda invocation ends or the process exits right after a failure.
+ */
+class FileLogSink extends LogSink {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  write(entry: LogEntry): void {
+    fs.appendFileSync(this.filePath, `${toJsonLine(entry)}\n`);
+  }
+}
+
+export { FileLogSink };
@@ -0,0 +1,54 @@
+/** Fields bound to every entry written in a scope or by a child logger */
+export interface LogFields {
+  correlationId?: string;
+  job?: string;
+  backupId?: string;
+  [field: string]: unknown;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  level: string;
+  message: string;
+  context?: string;
+  fields?: LogFields;
+  data?: Record<string, unknown>;
+}
+
+/** Where log entries are written; each sink decides its own format */
+abstract class LogSink {
+  abstract readonly name: string;
+  abstract write(entry: LogEntry): void;
+}
+
+/**
+ * One JSON object per entry, with the bound fields at the top level so log
+ * queries can filter on them. Errors, bigints and cycles in `data`, which
+ * JSON.stringify rejects or empties, are written in a readable form.
+ */
+const toJsonLine = (entry: LogEntry): string => {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(
+    {
+      timestamp: entry.timestamp,
+      level: entry.level,
+      ...entry.fields,
+      context: entry.context,
+      message: entry.message,
+      data: entry.data,
+    },
+    (_key, value: unknown) => {
+      if (typeof value === 'bigint') return value.toString();
+      if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+      }
+      if (typeof value === 'object' && value !== null) {
+        if (seen.has(value)) return '[Circular]';
+        seen.add(value);
+      }
+      return value;
+    },
+  );
+};
+
+export { LogSink, toJsonLine };
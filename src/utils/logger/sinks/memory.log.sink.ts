@@ -0,0 +1,29 @@
+import { LogEntry, LogSink } from './log.sink';
+
+/** Keeps the newest entries in memory, for failure reports and for asserting on logs in tests */
+class MemoryLogSink extends LogSink {
+  readonly name = 'memory';
+  private readonly entries: LogEntry[] = [];
+
+  constructor(private readonly limit = Infinity) {
+    super();
+  }
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.limit) {
+      this.entries.shift();
+    }
+  }
+
+  /** Oldest first */
+  getEntries(limit = this.limit): LogEntry[] {
+    return this.entries.slice(-limit);
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+export { MemoryLogSink };
@@ -0,0 +1,50 @@
+import { PassThrough, Readable } from 'stream';
+
+export interface StreamTee {
+  branches: PassThrough[];
+  /** Stops feeding a branch whose consumer gave up, so it can't stall the others */
+  release(branch: PassThrough): void;
+}
+
+/**
+ * Copies one stream into several branches. The source is paused while any live
+ * branch is full, so the slowest consumer sets the pace; an error in the source
+ * destroys every branch, and releasing every branch destroys the source.
+ */
+export const teeStream = (source: Readable, count: number): StreamTee => {
+  const branches = Array.from({ length: count }, () => new PassThrough());
+  const live = new Set(branches);
+  const waiting = new Set<PassThrough>();
+
+  const resumeIfReady = () => {
+    if (waiting.size === 0) source.resume();
+  };
+
+  source.on('data', (chunk: Buffer) => {
+    for (const branch of live) {
+      if (!branch.write(chunk)) {
+        waiting.add(branch);
+        branch.once('drain', () => {
+          waiting.delete(branch);
+          resumeIfReady();
+        });
+      }
+    }
+    if (waiting.size > 0) source.pause();
+  });
+  source.on('end', () => live.forEach(branch => branch.end()));
+  source.on('error', error => branches.forEach(branch => branch.destroy(error)));
+
+  const release = (branch: PassThrough) => {
+    if (!live.delete(branch)) return;
+    waiting.delete(branch);
+    branch.destroy();
+    if (live.size === 0) {
+      source.destroy();
+      return;
+    }
+    resumeIfReady();
+  };
+
+  return { branches, release };
+};